@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// Generates the JSON Schemas of the MCP tool arguments from the *Params types in
+// src/types.ts, so the schemas the server declares and validates against cannot
+// drift from the types the tools are written with.
+//
+//   node scripts/generate-schemas.js          write src/toolSchemas.generated.ts
+//   node scripts/generate-schemas.js --check  fail if the file is out of date
+//
+// Besides the description, a field's JSDoc may carry @integer and @minimum <n>.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const TYPES_FILE = path.join(__dirname, '..', 'src', 'types.ts');
+const OUTPUT_FILE = path.join(__dirname, '..', 'src', 'toolSchemas.generated.ts');
+
+function main() {
+  const output = renderSchemas(generateSchemas(TYPES_FILE));
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf8') : '';
+    if (current !== output) {
+      console.error(`${path.relative(process.cwd(), OUTPUT_FILE)} is out of date; run npm run generate-schemas`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT_FILE, output);
+}
+
+/** Returns the schemas of the exported *Params types in a TypeScript file, by type name. */
+function generateSchemas(typesFile) {
+  const program = ts.createProgram([typesFile], { strict: true, target: ts.ScriptTarget.ES2022 });
+  const checker = program.getTypeChecker();
+  const source = program.getSourceFile(typesFile);
+
+  const schemas = {};
+  for (const statement of source.statements) {
+    if (!isExportedParamsType(statement)) {
+      continue;
+    }
+    const name = statement.name.text;
+    schemas[name] = toSchema(checker.getTypeAtLocation(statement.name), checker, name);
+  }
+  return schemas;
+}
+
+function renderSchemas(schemas) {
+  return [
+    '// Generated by scripts/generate-schemas.js from the *Params types in src/types.ts.',
+    '// Do not edit; run `npm run generate-schemas` after changing those types.',
+    '',
+    "import { ToolInputSchema } from './types';",
+    '',
+    `export const TOOL_SCHEMAS = ${JSON.stringify(schemas, null, 2)} satisfies Record<string, ToolInputSchema>;`,
+    ''
+  ].join('\n');
+}
+
+function isExportedParamsType(statement) {
+  return (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+    statement.name.text.endsWith('Params') &&
+    (ts.getCombinedModifierFlags(statement) & ts.ModifierFlags.Export) !== 0;
+}
+
+function toSchema(type, checker, where) {
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+    return {};
+  }
+  if (type.flags & ts.TypeFlags.Boolean || type.flags & ts.TypeFlags.BooleanLiteral) {
+    return { type: 'boolean' };
+  }
+  if (type.flags & ts.TypeFlags.String) {
+    return { type: 'string' };
+  }
+  if (type.flags & ts.TypeFlags.Number) {
+    return { type: 'number' };
+  }
+  if (type.isStringLiteral()) {
+    return { type: 'string', enum: [type.value] };
+  }
+  if (type.isNumberLiteral()) {
+    return { type: 'number', enum: [type.value] };
+  }
+  if (type.isUnion()) {
+    return unionToSchema(type, checker, where);
+  }
+  if (checker.isArrayType(type)) {
+    return { type: 'array', items: toSchema(checker.getTypeArguments(type)[0], checker, `${where}[]`) };
+  }
+  if (type.flags & ts.TypeFlags.Object) {
+    return objectToSchema(type, checker, where);
+  }
+  throw new Error(`Unsupported type '${checker.typeToString(type)}' at ${where}`);
+}
+
+function unionToSchema(type, checker, where) {
+  const members = type.types.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null)));
+
+  // Optional booleans arrive as true | false | undefined
+  if (members.every(member => member.flags & ts.TypeFlags.BooleanLiteral)) {
+    return { type: 'boolean' };
+  }
+  if (members.length === 1) {
+    return toSchema(members[0], checker, where);
+  }
+  // String enums and unions of string literals
+  if (members.every(member => member.isStringLiteral())) {
+    return { type: 'string', enum: members.map(member => member.value) };
+  }
+
+  const schemas = members.map(member => toSchema(member, checker, where));
+  if (schemas.every(schema => Object.keys(schema).length === 1 && typeof schema.type === 'string')) {
+    return { type: schemas.map(schema => schema.type) };
+  }
+  return { anyOf: schemas };
+}
+
+function withTags(schema, property, checker, where) {
+  const result = { ...schema };
+  for (const tag of property.getJsDocTags(checker)) {
+    const text = ts.displayPartsToString(tag.text).trim();
+    if (tag.name === 'integer') {
+      if (result.type !== 'number') {
+        throw new Error(`@integer on a field that is not a number at ${where}`);
+      }
+      result.type = 'integer';
+    } else if (tag.name === 'minimum') {
+      if (text === '' || !Number.isFinite(Number(text))) {
+        throw new Error(`@minimum needs a number at ${where}`);
+      }
+      result.minimum = Number(text);
+    }
+  }
+  return result;
+}
+
+function objectToSchema(type, checker, where) {
+  const properties = {};
+  const required = [];
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const schema = withTags(
+      toSchema(checker.getTypeOfSymbol(property), checker, `${where}.${property.name}`),
+      property,
+      checker,
+      `${where}.${property.name}`
+    );
+    const description = ts.displayPartsToString(property.getDocumentationComment(checker));
+    properties[property.name] = description ? { ...schema, description } : schema;
+
+    if (!(property.flags & ts.SymbolFlags.Optional)) {
+      required.push(property.name);
+    }
+  }
+
+  const schema = { type: 'object', properties };
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  // Closed interfaces reject unknown arguments; index signatures keep them open
+  const index = checker.getIndexInfosOfType(type).find(info => info.keyType.flags & ts.TypeFlags.String);
+  if (!index || index.type.flags & ts.TypeFlags.Never) {
+    schema.additionalProperties = false;
+  } else if (!(index.type.flags & ts.TypeFlags.Any)) {
+    schema.additionalProperties = toSchema(index.type, checker, `${where}[key]`);
+  }
+
+  return schema;
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { generateSchemas, renderSchemas };
@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+const TOKEN_SECRET_KEY = 'vscodeDebuggerMcp.authToken';
+
+/** Returns the per-install bearer token, creating it on first use. */
+export async function getAuthToken(secrets: vscode.SecretStorage): Promise<string> {
+  const existing = await secrets.get(TOKEN_SECRET_KEY);
+  if (existing) {
+    return existing;
+  }
+  return regenerateAuthToken(secrets);
+}
+
+export async function regenerateAuthToken(secrets: vscode.SecretStorage): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  await secrets.store(TOKEN_SECRET_KEY, token);
+  return token;
+}
+
+export function isValidBearerToken(authorization: string | undefined, expected: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization || '');
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const wanted = Buffer.from(expected);
+  // Constant-time comparison so the token cannot be guessed byte by byte
+  return provided.length === wanted.length && timingSafeEqual(provided, wanted);
+}
+
+/** Requests without an Origin header come from non-browser clients and are allowed. */
+export function isAllowedOrigin(origin: string | undefined): boolean {
+  if (!origin) {
+    return true;
+  }
+
+  const allowed = vscode.workspace
+    .getConfiguration('vscodeDebuggerMcp')
+    .get<string[]>('allowedOrigins', []);
+  return allowed.includes(origin);
+}
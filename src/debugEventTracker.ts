@@ -0,0 +1,503 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AdapterBreakpoint, DebugEvent, DebugEventType, SessionState } from './types';
+
+const TRACKED_EVENTS: ReadonlySet<string> = new Set<DebugEventType>([
+  'stopped',
+  'continued',
+  'exited',
+  'terminated',
+  'output',
+  'breakpoint'
+]);
+
+// Requests after which the debuggee runs until the next 'stopped' event
+const RESUMING_REQUESTS: ReadonlySet<string> = new Set([
+  'continue',
+  'next',
+  'stepIn',
+  'stepOut',
+  'stepBack',
+  'reverseContinue',
+  'restartFrame',
+  'goto'
+]);
+
+interface TrackedSession {
+  session: vscode.DebugSession;
+  state: SessionState;
+  // Most recent stop of a thread that is still paused
+  lastStop?: DebugEvent;
+  // Stops of the threads that are still paused, by thread id
+  stoppedThreads: Map<number, DebugEvent>;
+  // Set by a stop that paused every thread; runningThreads then lists the ones resumed since
+  allThreadsStopped: boolean;
+  runningThreads: Set<number>;
+  // Adapter capabilities from the 'initialize' response
+  capabilities?: any;
+  // Last arguments sent to the adapter, by VS Code or by us; each request replaces the previous set
+  exceptionBreakpoints?: { filters: string[]; filterOptions?: any[] };
+  dataBreakpoints?: any[];
+  // What the adapter actually bound, by normalized source path and by function name
+  sourceBreakpoints: Map<string, AdapterBreakpoint[]>;
+  functionBreakpoints: Map<string, AdapterBreakpoint>;
+  // Loaded modules by id, from 'module' events
+  modules: Map<string, { name: string; path?: string }>;
+  // Frames from stackTrace responses while paused, by frame id
+  frames: Map<number, { threadId: number; frame: any }>;
+  // Requests whose responses we record, by request seq
+  pendingRequests: Map<number, { command: string; args: any; lastStop?: DebugEvent }>;
+}
+
+export class DebugEventTracker implements vscode.DebugAdapterTrackerFactory, vscode.Disposable {
+  private readonly eventEmitter = new vscode.EventEmitter<DebugEvent>();
+  private readonly breakpointsEmitter = new vscode.EventEmitter<{ sessionId: string; path: string }>();
+  private readonly sessionStartEmitter = new vscode.EventEmitter<vscode.DebugSession>();
+  private readonly sessionsChangeEmitter = new vscode.EventEmitter<void>();
+  private readonly sessions = new Map<string, TrackedSession>();
+
+  readonly onDidReceiveEvent = this.eventEmitter.event;
+
+  /** Fired when a debug adapter starts for a session, including when the session restarts. */
+  readonly onDidStartSession = this.sessionStartEmitter.event;
+
+  /** Fired when a session is added or removed, or its adapter capabilities change. */
+  readonly onDidChangeSessions = this.sessionsChangeEmitter.event;
+
+  createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+    this.sessions.set(session.id, {
+      session,
+      state: 'running',
+      stoppedThreads: new Map(),
+      allThreadsStopped: false,
+      runningThreads: new Set(),
+      sourceBreakpoints: new Map(),
+      functionBreakpoints: new Map(),
+      modules: new Map(),
+      frames: new Map(),
+      pendingRequests: new Map()
+    });
+    this.sessionStartEmitter.fire(session);
+    this.sessionsChangeEmitter.fire();
+
+    return {
+      onWillReceiveMessage: (message: any) => {
+        if (message?.type === 'request') {
+          this.handleRequest(session.id, message.seq, message.command, message.arguments || {});
+        }
+      },
+      onDidSendMessage: (message: any) => {
+        if (message?.type === 'event' && TRACKED_EVENTS.has(message.event)) {
+          this.handleEvent(session, message.event, message.body || {});
+        } else if (message?.type === 'response') {
+          this.handleResponse(session.id, message);
+        } else if (message?.type === 'event' && message.event === 'module') {
+          this.handleModuleEvent(session.id, message.body || {});
+        } else if (message?.type === 'event' && message.event === 'capabilities') {
+          // Adapters may announce capability changes after initialization
+          this.update(session.id, tracked => tracked.capabilities = { ...tracked.capabilities, ...message.body?.capabilities });
+          this.sessionsChangeEmitter.fire();
+        }
+      },
+      onExit: () => {
+        // Not every adapter sends 'terminated' before exiting
+        if (this.sessions.get(session.id)?.state !== 'terminated') {
+          this.handleEvent(session, 'terminated', {});
+        }
+        this.sessions.delete(session.id);
+        this.sessionsChangeEmitter.fire();
+      }
+    };
+  }
+
+  getSession(sessionId: string): vscode.DebugSession | undefined {
+    return this.sessions.get(sessionId)?.session;
+  }
+
+  listSessions(): { session: vscode.DebugSession; state: SessionState }[] {
+    return [...this.sessions.values()].map(({ session, state }) => ({ session, state }));
+  }
+
+  getSessionState(sessionId: string): SessionState | undefined {
+    return this.sessions.get(sessionId)?.state;
+  }
+
+  /** Returns the last stop of a paused session, or undefined while it runs. */
+  getLastStop(sessionId: string): DebugEvent | undefined {
+    const tracked = this.sessions.get(sessionId);
+    return tracked?.state === 'stopped' ? tracked.lastStop : undefined;
+  }
+
+  /** Returns a frame seen in a stackTrace response since the session last paused. */
+  getFrame(sessionId: string, frameId: number): any {
+    return this.sessions.get(sessionId)?.frames.get(frameId)?.frame;
+  }
+
+  /** Whether a thread is paused, as far as the adapter's stopped and continued events tell. */
+  isThreadStopped(sessionId: string, threadId: number): boolean {
+    const tracked = this.sessions.get(sessionId);
+    if (!tracked || tracked.state !== 'stopped' || tracked.runningThreads.has(threadId)) {
+      return false;
+    }
+    return tracked.allThreadsStopped || tracked.stoppedThreads.has(threadId);
+  }
+
+  /** Whether a file is the source of a frame some paused session currently reports. */
+  isFrameSource(filePath: string): boolean {
+    const normalized = path.normalize(filePath);
+    return [...this.sessions.values()].some(tracked =>
+      [...tracked.frames.values()].some(({ frame }) => frame.source?.path && path.normalize(frame.source.path) === normalized)
+    );
+  }
+
+  getModule(sessionId: string, moduleId: string | number): { name: string; path?: string } | undefined {
+    return this.sessions.get(sessionId)?.modules.get(String(moduleId));
+  }
+
+  getCapabilities(sessionId: string): any {
+    return this.sessions.get(sessionId)?.capabilities || {};
+  }
+
+  getExceptionBreakpoints(sessionId: string): { filters: string[]; filterOptions?: any[] } | undefined {
+    return this.sessions.get(sessionId)?.exceptionBreakpoints;
+  }
+
+  getDataBreakpoints(sessionId: string): any[] {
+    return this.sessions.get(sessionId)?.dataBreakpoints || [];
+  }
+
+  /** Returns how the adapter bound the breakpoint requested at the given location. */
+  getSourceBreakpoint(sessionId: string, sourcePath: string, line: number, column?: number): AdapterBreakpoint | undefined {
+    const bound = this.sessions.get(sessionId)?.sourceBreakpoints.get(path.normalize(sourcePath)) || [];
+    return bound.find(bp => bp.requestedLine === line && (column === undefined || bp.requestedColumn === column)) ||
+      bound.find(bp => bp.requestedLine === line);
+  }
+
+  getFunctionBreakpoint(sessionId: string, name: string): AdapterBreakpoint | undefined {
+    return this.sessions.get(sessionId)?.functionBreakpoints.get(name);
+  }
+
+  /** Resolves when the adapter next answers a setBreakpoints request for the file, or on timeout. */
+  waitForBreakpointUpdate(sessionId: string, sourcePath: string, timeoutMs: number): Promise<void> {
+    const normalized = path.normalize(sourcePath);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        listener.dispose();
+        resolve();
+      }, timeoutMs);
+
+      const listener = this.breakpointsEmitter.event(update => {
+        if (update.sessionId === sessionId && update.path === normalized) {
+          clearTimeout(timer);
+          listener.dispose();
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Resolves with the next 'stopped' or 'terminated' event, or undefined on timeout.
+   * With includeCurrent, a session that is already paused resolves immediately
+   * with the stop that paused it.
+   */
+  waitForStop(sessionId: string | undefined, timeoutMs: number, includeCurrent = false): Promise<DebugEvent | undefined> {
+    if (includeCurrent) {
+      const current = [...this.sessions.values()].find(tracked =>
+        tracked.state === 'stopped' && (!sessionId || tracked.session.id === sessionId)
+      );
+      if (current?.lastStop) {
+        return Promise.resolve(current.lastStop);
+      }
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        listener.dispose();
+        resolve(undefined);
+      }, timeoutMs);
+
+      const listener = this.onDidReceiveEvent(event => {
+        if ((event.event === 'stopped' || event.event === 'terminated') &&
+            (!sessionId || event.session.id === sessionId)) {
+          clearTimeout(timer);
+          listener.dispose();
+          resolve(event);
+        }
+      });
+    });
+  }
+
+  dispose(): void {
+    this.eventEmitter.dispose();
+    this.breakpointsEmitter.dispose();
+    this.sessionStartEmitter.dispose();
+    this.sessionsChangeEmitter.dispose();
+  }
+
+  private handleRequest(sessionId: string, seq: number, command: string, args: any): void {
+    if (command === 'setBreakpoints' || command === 'setFunctionBreakpoints' || command === 'stackTrace') {
+      this.update(sessionId, tracked => tracked.pendingRequests.set(seq, { command, args }));
+    } else if (RESUMING_REQUESTS.has(command) && args.singleThread && args.threadId !== undefined) {
+      this.markThreadRunning(sessionId, args.threadId);
+    } else if (command === 'continue') {
+      // The response says whether the adapter resumed only the requested thread
+      this.update(sessionId, tracked => tracked.pendingRequests.set(seq, { command, args, lastStop: tracked.lastStop }));
+    } else if (RESUMING_REQUESTS.has(command)) {
+      this.markRunning(sessionId);
+    } else if (command === 'restart') {
+      // Adapters that restart in place keep the session and its adapter
+      this.markRunning(sessionId);
+      const tracked = this.sessions.get(sessionId);
+      if (tracked) {
+        this.sessionStartEmitter.fire(tracked.session);
+      }
+    } else if (command === 'setExceptionBreakpoints') {
+      this.update(sessionId, tracked => tracked.exceptionBreakpoints = {
+        filters: args.filters || [],
+        filterOptions: args.filterOptions
+      });
+    } else if (command === 'setDataBreakpoints') {
+      this.update(sessionId, tracked => tracked.dataBreakpoints = args.breakpoints || []);
+    }
+  }
+
+  private handleResponse(sessionId: string, response: any): void {
+    const tracked = this.sessions.get(sessionId);
+    if (!tracked) {
+      return;
+    }
+
+    if (response.command === 'initialize' && response.success) {
+      tracked.capabilities = response.body || {};
+      this.sessionsChangeEmitter.fire();
+      return;
+    }
+
+    const request = tracked.pendingRequests.get(response.request_seq);
+    if (!request) {
+      return;
+    }
+    tracked.pendingRequests.delete(response.request_seq);
+
+    if (request.command === 'stackTrace') {
+      for (const frame of response.body?.stackFrames || []) {
+        tracked.frames.set(frame.id, { threadId: request.args.threadId, frame });
+      }
+      return;
+    }
+
+    if (request.command === 'continue') {
+      // A stop that arrived since the request is newer than this continue
+      if (tracked.lastStop !== request.lastStop) {
+        return;
+      }
+      if (response.success && response.body?.allThreadsContinued === false) {
+        this.markThreadRunning(sessionId, request.args.threadId);
+      } else if (response.success) {
+        this.markRunning(sessionId);
+      }
+      return;
+    }
+
+    // Response breakpoints are in the same order as the requested ones
+    const bound: any[] = response.success ? response.body?.breakpoints || [] : [];
+    const requested: any[] = request.args.breakpoints || [];
+    const toAdapterBreakpoint = (index: number): AdapterBreakpoint => ({
+      id: bound[index]?.id,
+      verified: !!bound[index]?.verified,
+      line: bound[index]?.line,
+      column: bound[index]?.column,
+      message: bound[index]?.message || (response.success ? undefined : response.message)
+    });
+
+    if (request.command === 'setBreakpoints') {
+      const sourcePath = request.args.source?.path;
+      if (!sourcePath) {
+        return;
+      }
+      const normalized = path.normalize(sourcePath);
+      tracked.sourceBreakpoints.set(normalized, requested.map((bp, index) => ({
+        ...toAdapterBreakpoint(index),
+        requestedLine: bp.line,
+        requestedColumn: bp.column
+      })));
+      this.breakpointsEmitter.fire({ sessionId, path: normalized });
+    } else {
+      tracked.functionBreakpoints = new Map(requested.map((bp, index) => [bp.name, toAdapterBreakpoint(index)]));
+    }
+  }
+
+  private handleModuleEvent(sessionId: string, body: any): void {
+    const module = body.module;
+    const modules = this.sessions.get(sessionId)?.modules;
+    if (!module || !modules) {
+      return;
+    }
+
+    if (body.reason === 'removed') {
+      modules.delete(String(module.id));
+    } else {
+      modules.set(String(module.id), { name: module.name, path: module.path });
+    }
+  }
+
+  private updateAdapterBreakpoint(sessionId: string, changed: any): void {
+    if (changed?.id === undefined) {
+      return;
+    }
+
+    const tracked = this.sessions.get(sessionId);
+    const all = [
+      ...[...(tracked?.sourceBreakpoints.values() || [])].flat(),
+      ...(tracked?.functionBreakpoints.values() || [])
+    ];
+    const existing = all.find(bp => bp.id === changed.id);
+    if (existing) {
+      existing.verified = changed.verified ?? existing.verified;
+      existing.line = changed.line ?? existing.line;
+      existing.column = changed.column ?? existing.column;
+      existing.message = changed.message;
+    }
+  }
+
+  private update(sessionId: string, updater: (tracked: TrackedSession) => void): void {
+    const tracked = this.sessions.get(sessionId);
+    if (tracked) {
+      updater(tracked);
+    }
+  }
+
+  private handleEvent(session: vscode.DebugSession, event: DebugEventType, body: any): void {
+    // Telemetry output is adapter-internal noise, not debuggee output
+    if (event === 'output' && body.category === 'telemetry') {
+      return;
+    }
+
+    const debugEvent: DebugEvent = {
+      event,
+      session: {
+        id: session.id,
+        name: session.name,
+        type: session.type
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    switch (event) {
+      case 'stopped':
+        debugEvent.reason = body.reason;
+        debugEvent.description = body.description || body.text;
+        debugEvent.threadId = body.threadId;
+        debugEvent.allThreadsStopped = body.allThreadsStopped;
+        debugEvent.hitBreakpointIds = body.hitBreakpointIds;
+        break;
+      case 'continued':
+        debugEvent.threadId = body.threadId;
+        debugEvent.allThreadsContinued = body.allThreadsContinued;
+        break;
+      case 'exited':
+        debugEvent.exitCode = body.exitCode;
+        break;
+      case 'output':
+        debugEvent.category = body.category || 'console';
+        debugEvent.output = body.output;
+        // Adapters attach the originating location to logpoint output
+        if (body.source) {
+          debugEvent.source = { path: body.source.path, name: body.source.name };
+          debugEvent.line = body.line;
+        }
+        break;
+      case 'breakpoint':
+        debugEvent.reason = body.reason;
+        debugEvent.breakpoint = body.breakpoint;
+        break;
+    }
+
+    this.updateState(session.id, debugEvent);
+    this.eventEmitter.fire(debugEvent);
+  }
+
+  private updateState(sessionId: string, event: DebugEvent): void {
+    const tracked = this.sessions.get(sessionId);
+    if (!tracked) {
+      return;
+    }
+
+    switch (event.event) {
+      case 'stopped':
+        tracked.state = 'stopped';
+        tracked.lastStop = event;
+        if (event.allThreadsStopped) {
+          tracked.allThreadsStopped = true;
+          tracked.runningThreads.clear();
+        }
+        if (event.threadId !== undefined) {
+          // Re-insert so the map stays ordered by stop time
+          tracked.stoppedThreads.delete(event.threadId);
+          tracked.stoppedThreads.set(event.threadId, event);
+          tracked.runningThreads.delete(event.threadId);
+        }
+        break;
+      case 'continued':
+        // Omitting allThreadsContinued means every thread resumed
+        if (event.allThreadsContinued === false && event.threadId !== undefined) {
+          this.markThreadRunning(sessionId, event.threadId);
+        } else {
+          this.markRunning(sessionId);
+        }
+        break;
+      case 'breakpoint':
+        // Adapters report late binding (e.g. once a script loads) through this event
+        this.updateAdapterBreakpoint(sessionId, event.breakpoint);
+        break;
+      case 'exited':
+      case 'terminated':
+        tracked.state = 'terminated';
+        tracked.lastStop = undefined;
+        tracked.stoppedThreads.clear();
+        break;
+    }
+  }
+
+  private markRunning(sessionId: string): void {
+    const tracked = this.sessions.get(sessionId);
+    if (tracked && tracked.state !== 'terminated') {
+      tracked.state = 'running';
+      tracked.lastStop = undefined;
+      tracked.stoppedThreads.clear();
+      tracked.allThreadsStopped = false;
+      tracked.runningThreads.clear();
+      // Frame ids are only valid while paused
+      tracked.frames.clear();
+    }
+  }
+
+  /** Resumes one thread; the session stays paused while other threads are. */
+  private markThreadRunning(sessionId: string, threadId: number): void {
+    const tracked = this.sessions.get(sessionId);
+    if (!tracked || tracked.state !== 'stopped') {
+      return;
+    }
+
+    tracked.stoppedThreads.delete(threadId);
+    if (tracked.allThreadsStopped) {
+      tracked.runningThreads.add(threadId);
+    }
+    if (tracked.stoppedThreads.size === 0 && !tracked.allThreadsStopped) {
+      this.markRunning(sessionId);
+      return;
+    }
+
+    // Report the most recent stop of a thread that is still paused
+    if (tracked.lastStop?.threadId === threadId) {
+      tracked.lastStop = [...tracked.stoppedThreads.values()].pop();
+    }
+    tracked.frames.forEach((entry, frameId) => {
+      if (entry.threadId === threadId) {
+        tracked.frames.delete(frameId);
+      }
+    });
+  }
+}
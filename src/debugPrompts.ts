@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DebuggerTools } from './debuggerTools';
+import { MCPPrompt, MCPPromptArgument, SourceContext } from './types';
+
+const WORKSPACE_PROMPTS_DIR = path.join('.vscode', 'mcp-debug-prompts');
+const SOURCE_CONTEXT_LINES = 10;
+const STATUS_STACK_FRAMES = 5;
+
+// Placeholders filled from the debugger rather than from prompt arguments
+const DEBUG_STATUS_PLACEHOLDER = 'debugStatus';
+const SOURCE_CONTEXT_PLACEHOLDER = 'sourceContext';
+const CONTEXT_PLACEHOLDERS = [DEBUG_STATUS_PLACEHOLDER, SOURCE_CONTEXT_PLACEHOLDER];
+
+// {{name}} is a required argument, {{name?}} an optional one
+const PLACEHOLDER = /\{\{\s*(\w+)(\?)?\s*\}\}/g;
+
+interface PromptTemplate {
+  prompt: MCPPrompt;
+  template: string;
+}
+
+const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    prompt: {
+      name: 'reproduce-failing-test',
+      description: 'Run a failing test under the debugger and find out why it fails',
+      arguments: [
+        { name: 'test', description: 'Name or file of the failing test', required: true },
+        { name: 'command', description: 'Command that runs the test, if no launch configuration does' },
+        { name: 'failure', description: 'The assertion or error message the test fails with' }
+      ]
+    },
+    template: [
+      'Reproduce the failing test {{test}} under the debugger and find the root cause of the failure.',
+      '',
+      'Command: {{command?}}',
+      'Failure: {{failure?}}',
+      '',
+      '1. Use list_debug_configurations to find a configuration that runs the test. If there is none, start one inline with start_debugging, using the command above.',
+      '2. Before starting, set breakpoints on the assertion that fails and on the code under test, and enable exception breakpoints with set_exception_breakpoints.',
+      '3. Start with waitForStop, then inspect get_stack_trace, get_scopes and get_variables at each stop. Check get_output for the test runner\'s messages.',
+      '4. Step with step_debugger until you see where the actual value first differs from the expected one.',
+      '5. Explain the root cause and propose a fix. Do not change the test unless it is wrong.'
+    ].join('\n')
+  },
+  {
+    prompt: {
+      name: 'find-null-origin',
+      description: 'Trace where a variable becomes null or undefined',
+      arguments: [
+        { name: 'variable', description: 'Variable or expression that ends up null or undefined', required: true },
+        { name: 'location', description: 'Where the null value is noticed, e.g. src/users.ts:42' }
+      ]
+    },
+    template: [
+      'Find where {{variable}} becomes null or undefined.',
+      '',
+      'Noticed at: {{location?}}',
+      '',
+      '1. Add a watch for {{variable}} with add_watch so its value is reported at every stop.',
+      '2. Set a breakpoint where the null value is noticed and walk up the stack with get_stack_trace to see where the value came from.',
+      '3. If the adapter supports data breakpoints, use set_data_breakpoint to stop when the value is written. Otherwise set conditional breakpoints, e.g. with the condition "{{variable}} == null", at each assignment.',
+      '4. Restart with step_debugger type restart and continue until the value changes. Note the last assignment that set it to null or undefined and why.',
+      '5. Explain the cause and propose a fix.'
+    ].join('\n')
+  },
+  {
+    prompt: {
+      name: 'explain-exception',
+      description: 'Explain the exception the debugger is stopped on',
+      arguments: []
+    },
+    template: [
+      'The debugger is stopped on an exception. Explain what went wrong.',
+      '',
+      '1. Use get_exception_info for the exception type, message, inner exceptions and stack trace.',
+      '2. Look at the frames of get_stack_trace that belong to this project and read their code with get_source.',
+      '3. Inspect the variables involved with get_scopes, get_variables and evaluate_expression.',
+      '4. Explain the root cause in plain terms, separating it from the place the exception surfaced, and propose a fix.'
+    ].join('\n')
+  }
+];
+
+/**
+ * Prompt templates for common debugging workflows: the built-in ones plus markdown
+ * files in each workspace folder's .vscode/mcp-debug-prompts directory.
+ */
+export class DebugPrompts {
+  private debuggerTools: DebuggerTools;
+  private outputChannel: vscode.OutputChannel;
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  /** Fired when workspace prompt files are added, changed or removed. */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, debuggerTools: DebuggerTools, outputChannel: vscode.OutputChannel) {
+    this.debuggerTools = debuggerTools;
+    this.outputChannel = outputChannel;
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/.vscode/mcp-debug-prompts/*.md');
+    const changed = () => this.changeEmitter.fire();
+
+    context.subscriptions.push(
+      this.changeEmitter,
+      watcher,
+      watcher.onDidChange(changed),
+      watcher.onDidCreate(changed),
+      watcher.onDidDelete(changed),
+      vscode.workspace.onDidChangeWorkspaceFolders(changed)
+    );
+  }
+
+  list(): MCPPrompt[] {
+    return this.loadTemplates().map(template => template.prompt);
+  }
+
+  get(name: string): MCPPrompt | undefined {
+    return this.list().find(prompt => prompt.name === name);
+  }
+
+  /** Fills in a prompt's arguments and the current debugger state. */
+  async render(name: string, args: Record<string, string> = {}): Promise<string> {
+    const template = this.loadTemplates().find(candidate => candidate.prompt.name === name);
+    if (!template) {
+      throw new Error(`Prompt '${name}' not found`);
+    }
+
+    const context = await this.getDebugContext();
+    let text = template.template.replace(PLACEHOLDER, (_match, key: string) => {
+      if (key === DEBUG_STATUS_PLACEHOLDER) {
+        return context.status;
+      }
+      if (key === SOURCE_CONTEXT_PLACEHOLDER) {
+        return context.source;
+      }
+      return args[key] || '(not given)';
+    });
+
+    // Templates that do not place the debugger state themselves get it at the end
+    if (!this.usesContext(template.template)) {
+      text += `\n\n## Current debug status\n\n${context.status}\n\n## Source context\n\n${context.source}`;
+    }
+
+    return text;
+  }
+
+  private loadTemplates(): PromptTemplate[] {
+    const templates = new Map<string, PromptTemplate>();
+    BUILT_IN_PROMPTS.forEach(template => templates.set(template.prompt.name, template));
+
+    // Workspace prompts replace built-in ones of the same name; the first folder wins among folders
+    const workspaceTemplates = new Map<string, PromptTemplate>();
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      for (const template of this.readWorkspaceTemplates(path.join(folder.uri.fsPath, WORKSPACE_PROMPTS_DIR))) {
+        if (!workspaceTemplates.has(template.prompt.name)) {
+          workspaceTemplates.set(template.prompt.name, template);
+        }
+      }
+    }
+    workspaceTemplates.forEach((template, name) => templates.set(name, template));
+
+    return [...templates.values()];
+  }
+
+  private readWorkspaceTemplates(directory: string): PromptTemplate[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(directory).filter(file => file.endsWith('.md')).sort();
+    } catch {
+      return [];
+    }
+
+    const templates: PromptTemplate[] = [];
+    for (const file of files) {
+      const filePath = path.join(directory, file);
+      try {
+        templates.push(this.parseTemplate(path.basename(file, '.md'), fs.readFileSync(filePath, 'utf8')));
+      } catch (error) {
+        // Skip the file; the other prompts still work
+        this.outputChannel.appendLine(`Skipped prompt template ${filePath}: ${error}`);
+      }
+    }
+    return templates;
+  }
+
+  /**
+   * A workspace template is markdown with an optional front matter block holding a
+   * `description:` line. Its arguments are the {{placeholders}} in the body.
+   */
+  private parseTemplate(name: string, content: string): PromptTemplate {
+    let description: string | undefined;
+    let template = content;
+
+    const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(content);
+    if (frontMatter) {
+      template = content.slice(frontMatter[0].length);
+      description = /^description:\s*(.+)$/m.exec(frontMatter[1])?.[1].trim();
+    }
+
+    const args = new Map<string, MCPPromptArgument>();
+    for (const match of template.matchAll(PLACEHOLDER)) {
+      const [, key, optional] = match;
+      if (CONTEXT_PLACEHOLDERS.includes(key)) {
+        continue;
+      }
+      // A placeholder is required if any of its uses is
+      const required = !optional || !!args.get(key)?.required;
+      args.set(key, { name: key, required });
+    }
+
+    return {
+      prompt: { name, description, arguments: [...args.values()] },
+      template: template.trim()
+    };
+  }
+
+  private usesContext(template: string): boolean {
+    return [...template.matchAll(PLACEHOLDER)].some(match => CONTEXT_PLACEHOLDERS.includes(match[1]));
+  }
+
+  private async getDebugContext(): Promise<{ status: string; source: string }> {
+    const status = await this.debuggerTools.getDebugStatus();
+    if (!status.isActive) {
+      return { status: 'No active debug session.', source: 'Not available: no active debug session.' };
+    }
+
+    const summary = {
+      ...status,
+      stackFrames: status.stackFrames?.slice(0, STATUS_STACK_FRAMES)
+    };
+    const statusText = `\`\`\`json\n${JSON.stringify(summary, null, 2)}\n\`\`\``;
+
+    const topFrame = status.stackFrames?.[0];
+    if (!topFrame) {
+      return { status: statusText, source: 'Not available: the debugger is not paused.' };
+    }
+
+    try {
+      const source = await this.debuggerTools.getSource({
+        sessionId: status.activeSession?.id,
+        frameId: topFrame.id,
+        contextLines: SOURCE_CONTEXT_LINES
+      });
+      return { status: statusText, source: this.formatSource(source) };
+    } catch (error) {
+      return { status: statusText, source: `Not available: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
+  private formatSource(source: SourceContext): string {
+    const width = String(source.endLine).length;
+    const lines = source.lines.map(line =>
+      `${line.current ? '>' : ' '} ${String(line.line).padStart(width)} | ${line.text}`
+    );
+    return `${source.path || source.name || 'source'}:${source.line ?? source.startLine}\n\`\`\`\n${lines.join('\n')}\n\`\`\``;
+  }
+}
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { DebuggerTools } from './debuggerTools';
+import { DebugEventTracker } from './debugEventTracker';
+import { DebugEvent, MCPResource } from './types';
+
+const BREAKPOINTS_URI = 'debug://breakpoints';
+const STATUS_URI = 'debug://status';
+const STACK_URI = 'debug://stack';
+const OUTPUT_URI = 'debug://output';
+const LAUNCH_CONFIGURATIONS_URI = 'debug://launch-configurations';
+
+// Output and stepping produce bursts of changes; subscribers hear about each burst once
+const UPDATE_DELAY_MS = 250;
+const OUTPUT_RESOURCE_ENTRIES = 200;
+
+const RESOURCES: MCPResource[] = [
+  {
+    uri: BREAKPOINTS_URI,
+    name: 'Breakpoints',
+    description: 'Source, function, exception and data breakpoints, with where the debug adapter bound them',
+    mimeType: 'application/json'
+  },
+  {
+    uri: STATUS_URI,
+    name: 'Debug status',
+    description: 'The active debug session: threads, stop reason, exception, capabilities and top stack frames',
+    mimeType: 'application/json'
+  },
+  {
+    uri: STACK_URI,
+    name: 'Stopped thread stack',
+    description: 'Call stack of the thread that stopped in the active session',
+    mimeType: 'application/json'
+  },
+  {
+    uri: OUTPUT_URI,
+    name: 'Debug console output',
+    description: `The newest ${OUTPUT_RESOURCE_ENTRIES} debug console entries of the active or most recent session`,
+    mimeType: 'application/json'
+  },
+  {
+    uri: LAUNCH_CONFIGURATIONS_URI,
+    name: 'Launch configurations',
+    description: 'Debug configurations and compounds from launch.json, settings and the .code-workspace file',
+    mimeType: 'application/json'
+  }
+];
+
+/** Exposes debugger state as MCP resources and reports when each one changes. */
+export class DebugResources {
+  private debuggerTools: DebuggerTools;
+  private debugEvents: DebugEventTracker;
+  private changeEmitter = new vscode.EventEmitter<string>();
+  private pendingUpdates: Map<string, NodeJS.Timeout> = new Map();
+
+  /** Fired with the URI of a resource whose content changed. */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, debugEvents: DebugEventTracker, debuggerTools: DebuggerTools) {
+    this.debuggerTools = debuggerTools;
+    this.debugEvents = debugEvents;
+
+    const launchWatcher = vscode.workspace.createFileSystemWatcher('**/.vscode/{launch,settings}.json');
+    const launchChanged = () => this.changed(LAUNCH_CONFIGURATIONS_URI);
+
+    context.subscriptions.push(
+      this.changeEmitter,
+      launchWatcher,
+      launchWatcher.onDidChange(launchChanged),
+      launchWatcher.onDidCreate(launchChanged),
+      launchWatcher.onDidDelete(launchChanged),
+      vscode.workspace.onDidChangeWorkspaceFolders(launchChanged),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('launch')) {
+          launchChanged();
+        }
+      }),
+      vscode.debug.onDidChangeBreakpoints(() => this.changed(BREAKPOINTS_URI)),
+      vscode.debug.onDidChangeActiveDebugSession(() => this.changed(STATUS_URI, STACK_URI, OUTPUT_URI, BREAKPOINTS_URI)),
+      debugEvents.onDidChangeSessions(() => this.changed(STATUS_URI, OUTPUT_URI)),
+      debugEvents.onDidReceiveEvent(event => this.handleDebugEvent(event)),
+      { dispose: () => this.pendingUpdates.forEach(timer => clearTimeout(timer)) }
+    );
+  }
+
+  list(): MCPResource[] {
+    return RESOURCES;
+  }
+
+  has(uri: string): boolean {
+    return RESOURCES.some(resource => resource.uri === uri);
+  }
+
+  async read(uri: string): Promise<any> {
+    switch (uri) {
+      case BREAKPOINTS_URI:
+        return this.debuggerTools.getBreakpoints();
+      case STATUS_URI:
+        return this.debuggerTools.getDebugStatus();
+      case STACK_URI:
+        return this.readStack();
+      case OUTPUT_URI:
+        return this.readOutput();
+      case LAUNCH_CONFIGURATIONS_URI:
+        return this.debuggerTools.listDebugConfigurations();
+      default:
+        throw new Error(`Unknown resource '${uri}'`);
+    }
+  }
+
+  private async readStack(): Promise<any> {
+    const session = vscode.debug.activeDebugSession;
+    if (!session || this.debugEvents.getSessionState(session.id) !== 'stopped') {
+      return { isPaused: false };
+    }
+    return this.debuggerTools.getStackTrace({ sessionId: session.id });
+  }
+
+  private async readOutput(): Promise<any> {
+    try {
+      return await this.debuggerTools.getOutput({ tail: true, limit: OUTPUT_RESOURCE_ENTRIES });
+    } catch {
+      // Nothing has been captured yet
+      return { entries: [] };
+    }
+  }
+
+  private handleDebugEvent(event: DebugEvent): void {
+    switch (event.event) {
+      case 'stopped':
+      case 'continued':
+      case 'exited':
+      case 'terminated':
+        this.changed(STATUS_URI, STACK_URI);
+        break;
+      case 'output':
+        this.changed(OUTPUT_URI);
+        break;
+      case 'breakpoint':
+        this.changed(BREAKPOINTS_URI);
+        break;
+    }
+  }
+
+  private changed(...uris: string[]): void {
+    for (const uri of uris) {
+      if (this.pendingUpdates.has(uri)) {
+        continue;
+      }
+      this.pendingUpdates.set(uri, setTimeout(() => {
+        this.pendingUpdates.delete(uri);
+        this.changeEmitter.fire(uri);
+      }, UPDATE_DELAY_MS));
+    }
+  }
+}
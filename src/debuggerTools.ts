@@ -1,27 +1,122 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
-import { BreakpointParams, EvaluateParams, DebugConfiguration, DebugStatus, StepParams, StepType } from './types';
+import * as fs from 'fs';
+import { DebugEventTracker } from './debugEventTracker';
+import { OutputCapture } from './outputCapture';
+import { loadLaunchConfigurations } from './launchConfigurations';
+import {
+  BreakpointParams,
+  RemoveBreakpointParams,
+  RemoveFunctionBreakpointParams,
+  RemoveDataBreakpointParams,
+  RemoveWatchParams,
+  BreakpointEnablementParams,
+  BreakpointInfo,
+  AdapterBreakpoint,
+  LogpointOutputParams,
+  LogpointOutput,
+  OutputParams,
+  OutputResult,
+  FunctionBreakpointParams,
+  ExceptionBreakpointsParams,
+  DataBreakpointParams,
+  EvaluateParams,
+  DebugConfiguration,
+  InlineDebugConfiguration,
+  LaunchConfigurations,
+  DebugStatus,
+  ExceptionDetails,
+  ExceptionInfo,
+  ExceptionInfoParams,
+  StepParams,
+  StepType,
+  StepInTarget,
+  StepInTargetsParams,
+  SessionParams,
+  SessionInfo,
+  StartDebuggingParams,
+  WaitForStopParams,
+  StopResult,
+  DebugEvent,
+  StackFrameInfo,
+  StackTraceParams,
+  StackTraceResult,
+  ThreadInfo,
+  ThreadsParams,
+  SourceParams,
+  SourceContext,
+  SourceLine,
+  ScopesParams,
+  ScopeInfo,
+  SetVariableParams,
+  SetVariableResult,
+  WatchExpression,
+  WatchResult,
+  VariablesParams,
+  VariableInfo
+} from './types';
+
+const DEFAULT_VARIABLE_DEPTH = 1;
+const MAX_VARIABLE_DEPTH = 5;
+const DEFAULT_MAX_ITEMS = 100;
+const MAX_ITEMS_LIMIT = 1000;
+// Total variables one get_variables or get_scopes call may return across all levels
+const MAX_VARIABLE_NODES = 2000;
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+const MAX_WAIT_TIMEOUT_MS = 300000;
+const DEFAULT_STOP_FRAMES = 5;
+const BREAKPOINT_BIND_TIMEOUT_MS = 2000;
+const RESTART_TERMINATE_TIMEOUT_MS = 5000;
+const DEFAULT_STACK_LEVELS = 20;
+const MAX_STACK_LEVELS = 200;
+const DEFAULT_CONTEXT_LINES = 10;
+const MAX_CONTEXT_LINES = 500;
+const WATCHES_STATE_KEY = 'vscodeDebuggerMcp.watches';
+const MAX_LOGPOINT_OUTPUT = 1000;
+const DEFAULT_LOGPOINT_OUTPUT_LIMIT = 100;
 
 export class DebuggerTools {
-  constructor(_context: vscode.ExtensionContext) {
-    // Context may be used in future implementations
+  private debugEvents: DebugEventTracker;
+  private outputCapture: OutputCapture;
+  private logpointOutput: LogpointOutput[] = [];
+  private nextLogpointCursor = 1;
+  private workspaceState: vscode.Memento;
+  // Results of the last evaluation of each watch, by watch id
+  private lastWatchResults: Map<number, WatchResult> = new Map();
+
+  constructor(context: vscode.ExtensionContext, debugEvents: DebugEventTracker) {
+    this.debugEvents = debugEvents;
+    this.workspaceState = context.workspaceState;
+    this.outputCapture = new OutputCapture(context, debugEvents);
+
+    context.subscriptions.push(
+      debugEvents.onDidReceiveEvent(event => this.collectLogpointOutput(event))
+    );
   }
 
   async setBreakpoint(params: BreakpointParams): Promise<vscode.Breakpoint> {
     const absolutePath = this.resolveFilePath(params.path);
     const uri = vscode.Uri.file(absolutePath);
     const location = new vscode.SourceBreakpoint(
-      new vscode.Location(uri, new vscode.Position(params.line - 1, 0)),
-      true,
-      params.condition
+      new vscode.Location(uri, new vscode.Position(params.line - 1, Math.max((params.column ?? 1) - 1, 0))),
+      params.enabled ?? true,
+      params.condition,
+      params.hitCondition,
+      params.logMessage
     );
     
+    // Give the adapter a moment to bind the breakpoint so we can report where it landed
+    const session = vscode.debug.activeDebugSession;
+    const bound = session
+      ? this.debugEvents.waitForBreakpointUpdate(session.id, absolutePath, BREAKPOINT_BIND_TIMEOUT_MS)
+      : undefined;
+
     vscode.debug.addBreakpoints([location]);
+    await bound;
     return location;
   }
 
-  async removeBreakpoint(params: BreakpointParams): Promise<void> {
+  async removeBreakpoint(params: RemoveBreakpointParams): Promise<void> {
     const absolutePath = this.resolveFilePath(params.path);
     const breakpoints = vscode.debug.breakpoints;
     const toRemove = breakpoints.filter(bp => {
@@ -38,12 +133,145 @@ export class DebuggerTools {
     }
   }
 
-  async evaluateExpression(params: EvaluateParams): Promise<string> {
-    const session = vscode.debug.activeDebugSession;
-    if (!session) {
-      throw new Error('No active debug session');
+  async setBreakpointEnabled(params: BreakpointEnablementParams): Promise<number> {
+    let matches: vscode.Breakpoint[];
+
+    if (params.functionName) {
+      matches = vscode.debug.breakpoints.filter(bp =>
+        bp instanceof vscode.FunctionBreakpoint && bp.functionName === params.functionName
+      );
+    } else if (params.path && params.line) {
+      const absolutePath = this.resolveFilePath(params.path);
+      matches = vscode.debug.breakpoints.filter(bp =>
+        bp instanceof vscode.SourceBreakpoint &&
+        bp.location.uri.fsPath === absolutePath &&
+        bp.location.range.start.line === params.line! - 1
+      );
+    } else {
+      throw new Error('Either functionName or path and line are required');
+    }
+
+    // Breakpoint.enabled is read-only, so swap each breakpoint for a copy
+    const toChange = matches.filter(bp => bp.enabled !== params.enabled);
+    if (toChange.length > 0) {
+      vscode.debug.removeBreakpoints(toChange);
+      vscode.debug.addBreakpoints(toChange.map(bp => this.withEnabled(bp, params.enabled)));
+    }
+
+    return matches.length;
+  }
+
+  async getLogpointOutput(params: LogpointOutputParams = {}): Promise<{ entries: LogpointOutput[]; nextCursor: number }> {
+    const since = params.since ?? 0;
+    const limit = this.clamp(params.limit ?? DEFAULT_LOGPOINT_OUTPUT_LIMIT, 1, MAX_LOGPOINT_OUTPUT);
+    const entries = this.logpointOutput.filter(entry => entry.cursor > since).slice(0, limit);
+    const nextCursor = entries.length > 0 ? entries[entries.length - 1].cursor : since;
+
+    return { entries, nextCursor };
+  }
+
+  async getOutput(params: OutputParams = {}): Promise<OutputResult> {
+    // Output stays queryable after its session ends, so fall back to the latest session
+    const sessionId = params.sessionId
+      ?? vscode.debug.activeDebugSession?.id
+      ?? this.outputCapture.getLatestSessionId();
+    if (!sessionId) {
+      throw new Error('No debug output has been captured');
+    }
+
+    return this.outputCapture.query(sessionId, params);
+  }
+
+  async setFunctionBreakpoint(params: FunctionBreakpointParams): Promise<vscode.FunctionBreakpoint> {
+    const breakpoint = new vscode.FunctionBreakpoint(params.name, true, params.condition, params.hitCondition);
+    vscode.debug.addBreakpoints([breakpoint]);
+    return breakpoint;
+  }
+
+  async removeFunctionBreakpoint(params: RemoveFunctionBreakpointParams): Promise<void> {
+    const toRemove = vscode.debug.breakpoints.filter(bp =>
+      bp instanceof vscode.FunctionBreakpoint && bp.functionName === params.name
+    );
+
+    if (toRemove.length > 0) {
+      vscode.debug.removeBreakpoints(toRemove);
+    }
+  }
+
+  async setExceptionBreakpoints(params: ExceptionBreakpointsParams): Promise<{ filters: string[]; available: { filter: string; label: string }[] }> {
+    const session = this.resolveSession(params.sessionId);
+
+    const available = this.getExceptionFilters(session);
+    const unknown = params.filters.filter(filter => !available.some(f => f.filter === filter));
+    if (available.length > 0 && unknown.length > 0) {
+      throw new Error(`Unknown exception filter(s): ${unknown.join(', ')}. Available: ${available.map(f => f.filter).join(', ')}`);
     }
 
+    try {
+      await session.customRequest('setExceptionBreakpoints', {
+        filters: params.filters,
+        filterOptions: params.filterOptions
+      });
+    } catch (error) {
+      throw new Error(`Failed to set exception breakpoints: ${error}`);
+    }
+
+    return { filters: params.filters, available };
+  }
+
+  async setDataBreakpoint(params: DataBreakpointParams): Promise<{ dataId: string; description?: string; accessType?: string; verified: boolean; message?: string }> {
+    const session = this.resolveSession(params.sessionId);
+
+    if (!this.debugEvents.getCapabilities(session.id).supportsDataBreakpoints) {
+      throw new Error(`Debug adapter '${session.type}' does not support data breakpoints`);
+    }
+
+    const info = await session.customRequest('dataBreakpointInfo', {
+      variablesReference: params.variablesReference,
+      name: params.name
+    });
+    if (!info?.dataId) {
+      throw new Error(`Cannot set a data breakpoint on '${params.name}': ${info?.description || 'not supported for this variable'}`);
+    }
+
+    const accessTypes: string[] | undefined = info.accessTypes;
+    if (params.accessType && accessTypes && !accessTypes.includes(params.accessType)) {
+      throw new Error(`Access type '${params.accessType}' is not supported for '${params.name}'. Supported: ${accessTypes.join(', ')}`);
+    }
+
+    // setDataBreakpoints replaces the whole set, so resend the existing ones too
+    const breakpoints = this.debugEvents.getDataBreakpoints(session.id).filter(bp => bp.dataId !== info.dataId);
+    breakpoints.push({
+      dataId: info.dataId,
+      accessType: params.accessType,
+      condition: params.condition
+    });
+
+    const response = await session.customRequest('setDataBreakpoints', { breakpoints });
+    const result = response?.breakpoints?.[breakpoints.length - 1];
+
+    return {
+      dataId: info.dataId,
+      description: info.description,
+      accessType: params.accessType,
+      verified: !!result?.verified,
+      message: result?.message
+    };
+  }
+
+  async removeDataBreakpoint(params: RemoveDataBreakpointParams): Promise<void> {
+    const session = this.resolveSession(params.sessionId);
+
+    const existing = this.debugEvents.getDataBreakpoints(session.id);
+    const breakpoints = existing.filter(bp => bp.dataId !== params.dataId);
+    if (breakpoints.length !== existing.length) {
+      await session.customRequest('setDataBreakpoints', { breakpoints });
+    }
+  }
+
+  async evaluateExpression(params: EvaluateParams): Promise<string> {
+    const session = this.resolveSession(params.sessionId);
+
     try {
       const response = await session.customRequest('evaluate', {
         expression: params.expression,
@@ -57,139 +285,363 @@ export class DebuggerTools {
     }
   }
 
-  async listDebugConfigurations(): Promise<DebugConfiguration[]> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return [];
+  async getSource(params: SourceParams): Promise<SourceContext> {
+    let sourcePath = params.path && params.frameId === undefined ? this.resolveReadablePath(params.path) : undefined;
+    let sourceReference = params.sourceReference;
+    let name: string | undefined;
+    let line = params.line;
+
+    if (params.frameId !== undefined) {
+      const session = this.resolveSession(params.sessionId);
+      const frame = this.debugEvents.getFrame(session.id, params.frameId);
+      if (!frame) {
+        throw new Error(`Unknown frame ID ${params.frameId}. Frame IDs are only valid while paused; call get_stack_trace first`);
+      }
+      if (!frame.source) {
+        throw new Error(`Frame ${params.frameId} has no source`);
+      }
+      sourcePath = frame.source.path;
+      sourceReference = frame.source.sourceReference || undefined;
+      name = frame.source.name;
+      line = frame.line;
     }
 
-    const configurations: DebugConfiguration[] = [];
-    
-    for (const folder of workspaceFolders) {
-      const launchPath = path.join(folder.uri.fsPath, '.vscode', 'launch.json');
-      
-      if (fs.existsSync(launchPath)) {
-        try {
-          const content = fs.readFileSync(launchPath, 'utf8');
-          const launchConfig = JSON.parse(content);
-          
-          if (launchConfig.configurations && Array.isArray(launchConfig.configurations)) {
-            configurations.push(...launchConfig.configurations);
-          }
-        } catch (error) {
-          console.error(`Failed to parse launch.json in ${folder.name}: ${error}`);
+    if (!sourcePath && !sourceReference) {
+      throw new Error('One of frameId, path or sourceReference is required');
+    }
+
+    let text: string;
+    let mimeType: string | undefined;
+    if (sourceReference) {
+      // Sources without a file on disk (eval'd code, decompiled classes, runtime internals)
+      const session = this.resolveSession(params.sessionId);
+      try {
+        const response = await session.customRequest('source', {
+          source: { path: sourcePath, sourceReference },
+          sourceReference
+        });
+        text = response?.content ?? '';
+        mimeType = response?.mimeType;
+      } catch (error) {
+        throw new Error(`Failed to get source: ${error}`);
+      }
+    } else {
+      // Read through VS Code so unsaved editor changes are included
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(sourcePath!));
+      text = document.getText();
+    }
+
+    const allLines = text.split(/\r?\n/);
+    const contextLines = this.clamp(params.contextLines ?? DEFAULT_CONTEXT_LINES, 0, MAX_CONTEXT_LINES);
+    const center = line ?? 1;
+    const startLine = Math.max(center - contextLines, 1);
+    const endLine = Math.min(center + contextLines, allLines.length);
+
+    const breakpointLines = new Set<number>();
+    if (sourcePath) {
+      const normalized = path.normalize(sourcePath);
+      for (const bp of vscode.debug.breakpoints) {
+        if (bp instanceof vscode.SourceBreakpoint && path.normalize(bp.location.uri.fsPath) === normalized) {
+          breakpointLines.add(bp.location.range.start.line + 1);
         }
       }
     }
 
-    // Also include configurations from settings
-    const workspaceConfig = vscode.workspace.getConfiguration('launch');
-    const settingsConfigs = workspaceConfig.get<DebugConfiguration[]>('configurations', []);
-    configurations.push(...settingsConfigs);
+    const lines: SourceLine[] = [];
+    for (let lineNumber = startLine; lineNumber <= endLine; lineNumber++) {
+      lines.push({
+        line: lineNumber,
+        text: allLines[lineNumber - 1],
+        current: lineNumber === line || undefined,
+        breakpoint: breakpointLines.has(lineNumber) || undefined
+      });
+    }
 
-    return configurations;
+    return {
+      path: sourcePath ? this.getRelativePath(sourcePath) : undefined,
+      name: name ?? (sourcePath ? path.basename(sourcePath) : undefined),
+      sourceReference,
+      mimeType,
+      line,
+      startLine,
+      endLine,
+      totalLines: allLines.length,
+      lines
+    };
   }
 
-  async startDebugging(configName?: string): Promise<void> {
-    const configurations = await this.listDebugConfigurations();
-    
-    if (configName) {
-      const config = configurations.find(c => c.name === configName);
-      if (!config) {
-        throw new Error(`Debug configuration '${configName}' not found`);
+  async getScopes(params: ScopesParams): Promise<ScopeInfo[]> {
+    const session = this.resolveSession(params.sessionId);
+
+    let response: any;
+    try {
+      response = await session.customRequest('scopes', { frameId: params.frameId });
+    } catch (error) {
+      throw new Error(`Failed to get scopes: ${error}`);
+    }
+
+    const scopes: ScopeInfo[] = [];
+    const budget = { nodes: MAX_VARIABLE_NODES };
+    for (const scope of response?.scopes || []) {
+      const info: ScopeInfo = {
+        name: scope.name,
+        variablesReference: scope.variablesReference,
+        expensive: !!scope.expensive,
+        presentationHint: scope.presentationHint,
+        namedVariables: scope.namedVariables,
+        indexedVariables: scope.indexedVariables
+      };
+
+      // Expensive scopes (e.g. globals) are left for the caller to expand explicitly
+      if (params.includeVariables && !info.expensive && info.variablesReference > 0) {
+        const result = await this.fetchVariables(session, info.variablesReference, 1, DEFAULT_MAX_ITEMS, 0, budget);
+        info.variables = result.variables;
+        info.truncated = result.truncated || undefined;
       }
-      
-      const folder = vscode.workspace.workspaceFolders?.[0];
-      await vscode.debug.startDebugging(folder, config);
-    } else {
-      // Start with the first available configuration
-      if (configurations.length > 0) {
-        const folder = vscode.workspace.workspaceFolders?.[0];
-        await vscode.debug.startDebugging(folder, configurations[0]);
+
+      scopes.push(info);
+    }
+
+    return scopes;
+  }
+
+  async getVariables(params: VariablesParams): Promise<{ variablesReference: number; variables: VariableInfo[]; truncated: boolean }> {
+    const session = this.resolveSession(params.sessionId);
+
+    if (!params.variablesReference || params.variablesReference <= 0) {
+      throw new Error('variablesReference must be a positive number');
+    }
+
+    const depth = this.clamp(params.depth ?? DEFAULT_VARIABLE_DEPTH, 1, MAX_VARIABLE_DEPTH);
+    const maxItems = this.clamp(params.maxItems ?? DEFAULT_MAX_ITEMS, 1, MAX_ITEMS_LIMIT);
+    const start = Math.max(params.start ?? 0, 0);
+
+    try {
+      const budget = { nodes: MAX_VARIABLE_NODES };
+      const result = await this.fetchVariables(session, params.variablesReference, depth, maxItems, start, budget, params.filter);
+      return { variablesReference: params.variablesReference, ...result };
+    } catch (error) {
+      throw new Error(`Failed to get variables: ${error}`);
+    }
+  }
+
+  async setVariable(params: SetVariableParams): Promise<SetVariableResult> {
+    const session = this.resolveSession(params.sessionId);
+    const capabilities = this.debugEvents.getCapabilities(session.id);
+    let response: any;
+
+    try {
+      if (params.variablesReference !== undefined && params.name !== undefined) {
+        if (!capabilities.supportsSetVariable) {
+          throw new Error(`Debug adapter '${session.type}' does not support setting variables`);
+        }
+        response = await session.customRequest('setVariable', {
+          variablesReference: params.variablesReference,
+          name: params.name,
+          value: params.value
+        });
+      } else if (params.expression !== undefined) {
+        if (!capabilities.supportsSetExpression) {
+          throw new Error(`Debug adapter '${session.type}' does not support assigning to expressions; use variablesReference and name instead`);
+        }
+        response = await session.customRequest('setExpression', {
+          expression: params.expression,
+          value: params.value,
+          frameId: params.frameId
+        });
       } else {
-        throw new Error('No debug configurations found');
+        throw new Error('Either variablesReference and name, or expression is required');
       }
+    } catch (error) {
+      throw new Error(`Failed to set variable: ${error instanceof Error ? error.message : error}`);
     }
+
+    return {
+      value: response?.value,
+      type: response?.type,
+      variablesReference: response?.variablesReference || undefined
+    };
   }
 
-  async stopDebugging(): Promise<void> {
-    const session = vscode.debug.activeDebugSession;
-    if (!session) {
-      throw new Error('No active debug session');
+  async addWatch(expression: string): Promise<WatchExpression> {
+    if (!expression) {
+      throw new Error('expression is required');
     }
+
+    const watches = this.getWatches();
+    const existing = watches.find(watch => watch.expression === expression);
+    if (existing) {
+      return existing;
+    }
+
+    const watch = { id: Math.max(0, ...watches.map(w => w.id)) + 1, expression };
+    await this.workspaceState.update(WATCHES_STATE_KEY, [...watches, watch]);
+    return watch;
+  }
+
+  async removeWatch(params: RemoveWatchParams): Promise<boolean> {
+    const watches = this.getWatches();
+    const remaining = watches.filter(watch => watch.id !== params.id && watch.expression !== params.expression);
+    if (remaining.length === watches.length) {
+      return false;
+    }
+
+    await this.workspaceState.update(WATCHES_STATE_KEY, remaining);
+    watches.filter(watch => !remaining.includes(watch)).forEach(watch => this.lastWatchResults.delete(watch.id));
+    return true;
+  }
+
+  /** Lists watches with the values from their last evaluation. */
+  listWatches(): WatchResult[] {
+    return this.getWatches().map(watch => this.lastWatchResults.get(watch.id) ?? watch);
+  }
+
+  /** Evaluates all watches in the given frame and remembers the results. */
+  async evaluateWatches(session: vscode.DebugSession, frameId: number | undefined): Promise<WatchResult[]> {
+    const results: WatchResult[] = [];
+
+    for (const watch of this.getWatches()) {
+      let result: WatchResult;
+      try {
+        const response = await session.customRequest('evaluate', {
+          expression: watch.expression,
+          frameId,
+          context: 'watch'
+        });
+        result = {
+          ...watch,
+          value: response?.result,
+          type: response?.type,
+          variablesReference: response?.variablesReference || undefined
+        };
+      } catch (error) {
+        result = { ...watch, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      this.lastWatchResults.set(watch.id, result);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  async listDebugConfigurations(): Promise<LaunchConfigurations> {
+    return loadLaunchConfigurations();
+  }
+
+  async startDebugging(params: StartDebuggingParams = {}): Promise<StopResult | undefined> {
+    if (params.configName && params.configuration) {
+      throw new Error('Pass either configName or configuration, not both');
+    }
+
+    let folder = this.resolveWorkspaceFolder(params.folder);
+    // A configuration object, or the name of a compound for VS Code to look up
+    let target: DebugConfiguration | string;
+
+    if (params.configuration) {
+      target = this.toInlineConfiguration(params.configuration, folder);
+    } else {
+      const { configurations, compounds } = await this.listDebugConfigurations();
+      // An explicit folder narrows the search when several folders share a name
+      const inFolder = <T extends { folder?: string }>(item: T) => !params.folder || item.folder === folder?.name;
+
+      if (params.configName) {
+        const found = configurations.find(c => c.name === params.configName && inFolder(c));
+        const compound = found ? undefined : compounds.find(c => c.name === params.configName && inFolder(c));
+        if (found) {
+          target = found.configuration;
+          folder = this.getWorkspaceFolder(found.folder) ?? folder;
+        } else if (compound) {
+          target = compound.name;
+          folder = this.getWorkspaceFolder(compound.folder);
+        } else {
+          throw new Error(`Debug configuration '${params.configName}' not found`);
+        }
+      } else {
+        // Start with the first available configuration
+        const first = configurations.find(inFolder);
+        if (!first) {
+          throw new Error('No debug configurations found');
+        }
+        target = first.configuration;
+        folder = this.getWorkspaceFolder(first.folder) ?? folder;
+      }
+    }
+
+    const start = async () => {
+      const started = await vscode.debug.startDebugging(folder, target, { noDebug: params.noDebug });
+      if (!started) {
+        throw new Error(`Failed to start debug configuration '${typeof target === 'string' ? target : target.name}'`);
+      }
+    };
+
+    if (!params.waitForStop) {
+      await start();
+      return undefined;
+    }
+
+    // The new session's id is not known yet, so wait for a stop in any session
+    return this.runAndWaitForStop(undefined, params.timeout, start);
+  }
+
+  async stopDebugging(params: SessionParams = {}): Promise<void> {
+    const session = this.resolveSession(params.sessionId);
     
     await vscode.debug.stopDebugging(session);
   }
 
-  async getDebugStatus(): Promise<DebugStatus> {
-    const session = vscode.debug.activeDebugSession;
-    const breakpoints = vscode.debug.breakpoints
-      .filter(bp => bp instanceof vscode.SourceBreakpoint)
-      .map(bp => {
-        const sourceBreakpoint = bp as vscode.SourceBreakpoint;
-        return {
-          path: this.getRelativePath(sourceBreakpoint.location.uri.fsPath),
-          line: sourceBreakpoint.location.range.start.line + 1,
-          enabled: sourceBreakpoint.enabled,
-          condition: sourceBreakpoint.condition
-        };
-      });
+  async getDebugStatus(params: SessionParams = {}): Promise<DebugStatus> {
+    // Without a sessionId the status describes the active session, if there is one
+    const session = params.sessionId ? this.resolveSession(params.sessionId) : vscode.debug.activeDebugSession;
+    const breakpoints = this.listBreakpoints(session);
 
-    let threads: { id: number; name: string }[] | undefined;
+    let threads: ThreadInfo[] | undefined;
     let activeThreadId: number | undefined;
-    let stackFrames: any[] | undefined;
+    let stopReason: string | undefined;
+    let exception: ExceptionInfo | undefined;
+    let stackFrames: StackFrameInfo[] | undefined;
+    let watches: WatchResult[] | undefined;
 
     if (session) {
+      const lastStop = this.debugEvents.getLastStop(session.id);
+      stopReason = lastStop?.reason;
+
       try {
-        // Get threads
-        const threadsResponse = await session.customRequest('threads');
-        threads = threadsResponse.threads || [];
-        
-        // For single-threaded debuggers, create a default thread
-        if (!threads || threads.length === 0) {
-          threads = [{ id: 1, name: 'main' }];
-        }
-        
-        // Get the first thread as active if available
-        if (threads && threads.length > 0) {
-          activeThreadId = threads[0].id;
-        }
-        
-        // Try to get stack trace for the active thread
-        try {
-          const stackTraceResponse = await session.customRequest('stackTrace', {
-            threadId: activeThreadId,
-            startFrame: 0,
-            levels: 20
-          });
-          
-          if (stackTraceResponse && stackTraceResponse.stackFrames) {
-            stackFrames = stackTraceResponse.stackFrames.map((frame: any) => ({
-              id: frame.id,
-              name: frame.name,
-              source: frame.source ? {
-                path: frame.source.path ? this.getRelativePath(frame.source.path) : undefined,
-                name: frame.source.name
-              } : undefined,
-              line: frame.line,
-              column: frame.column
-            }));
-          }
-        } catch (e) {
-          // Stack trace might not be available if not paused
-          // This is normal when the debugger is running
-        }
+        threads = await this.getThreads({ sessionId: session.id });
       } catch (error: any) {
         // Some debug adapters might not support threads
         // Provide a default thread in this case
         threads = [{ id: 1, name: 'main' }];
-        activeThreadId = 1;
         
         // Log error for debugging purposes
         if (error.message && !error.message.includes('not supported')) {
           console.error('Failed to get thread information:', error.message);
         }
       }
+
+      // Report the thread that actually stopped, not just the first one
+      activeThreadId = threads.find(thread => thread.id === lastStop?.threadId)?.id ?? threads[0]?.id;
+        
+      // Try to get stack trace for the active thread
+      try {
+        const stackTrace = await this.getStackTrace({ sessionId: session.id, threadId: activeThreadId });
+        stackFrames = stackTrace.stackFrames;
+
+        if (stackFrames.length > 0 && this.getWatches().length > 0) {
+          watches = await this.evaluateWatches(session, stackFrames[0].id);
+        }
+      } catch (e) {
+        // Stack trace might not be available if not paused
+        // This is normal when the debugger is running
+      }
+
+      if (stopReason === 'exception' && this.debugEvents.getCapabilities(session.id).supportsExceptionInfoRequest) {
+        try {
+          exception = await this.getExceptionInfo({ sessionId: session.id, threadId: lastStop?.threadId });
+        } catch {
+          // The status is still useful without exception details
+        }
+      }
     }
 
     return {
@@ -202,51 +654,679 @@ export class DebuggerTools {
       } : undefined,
       threads,
       activeThreadId,
+      stopReason,
+      exception,
+      capabilities: session ? this.debugEvents.getCapabilities(session.id) : undefined,
       stackFrames,
+      watches,
       breakpoints
     };
   }
 
-  async stepDebugger(params: StepParams): Promise<void> {
+  async getExceptionInfo(params: ExceptionInfoParams = {}): Promise<ExceptionInfo> {
+    const session = this.resolveSession(params.sessionId);
+
+    if (!this.debugEvents.getCapabilities(session.id).supportsExceptionInfoRequest) {
+      throw new Error(`Debug adapter '${session.type}' does not support exception info`);
+    }
+    if (this.debugEvents.getSessionState(session.id) !== 'stopped') {
+      throw new Error(`Debug session '${session.name}' is not paused`);
+    }
+
+    const threadId = params.threadId ?? await this.getDefaultThreadId(session);
+    const response = await session.customRequest('exceptionInfo', { threadId });
+
+    return {
+      threadId,
+      exceptionId: response.exceptionId,
+      description: response.description,
+      breakMode: response.breakMode,
+      details: response.details ? this.toExceptionDetails(response.details) : undefined
+    };
+  }
+
+  async getThreads(params: ThreadsParams = {}): Promise<ThreadInfo[]> {
+    const session = this.resolveSession(params.sessionId);
+    const response = await session.customRequest('threads');
+    const threads: any[] = response?.threads || [];
+
+    // For single-threaded debuggers, create a default thread
+    if (threads.length === 0) {
+      return [{ id: 1, name: 'main' }];
+    }
+
+    return threads.map(thread => ({
+      id: thread.id,
+      name: thread.name,
+      stopped: this.debugEvents.isThreadStopped(session.id, thread.id)
+    }));
+  }
+
+  async getStackTrace(params: StackTraceParams = {}): Promise<StackTraceResult> {
+    const session = this.resolveSession(params.sessionId);
+    const threadId = params.threadId ?? await this.getDefaultThreadId(session);
+    const startFrame = Math.max(params.startFrame ?? 0, 0);
+    const levels = this.clamp(params.levels ?? DEFAULT_STACK_LEVELS, 1, MAX_STACK_LEVELS);
+
+    const response = await session.customRequest('stackTrace', { threadId, startFrame, levels });
+    const frames: any[] = response?.stackFrames || [];
+
+    return {
+      threadId,
+      // totalFrames is optional in DAP; without it we only know what we have seen
+      totalFrames: response?.totalFrames ?? startFrame + frames.length,
+      stackFrames: frames.map(frame => this.toStackFrameInfo(frame, session))
+    };
+  }
+
+  async waitForStop(params: WaitForStopParams = {}): Promise<StopResult> {
+    const sessionId = params.sessionId ? this.resolveSession(params.sessionId).id : vscode.debug.activeDebugSession?.id;
+    const event = await this.debugEvents.waitForStop(sessionId, this.getWaitTimeout(params.timeout), true);
+    return this.toStopResult(event, params.frames);
+  }
+
+  async stepDebugger(params: StepParams): Promise<StopResult | undefined> {
+    const session = this.resolveSession(params.sessionId);
+
+    switch (params.type) {
+      case StepType.Restart:
+        return this.restartSession(session, params);
+      case StepType.RunToLine:
+        return this.runToLine(session, params);
+    }
+
+    // If no threadId specified, use the thread that stopped
+    const threadId = params.threadId ?? await this.getDefaultThreadId(session);
+    const stepArgs = this.getStepArguments(session, threadId, params);
+
+    const sendStep = async (): Promise<void> => {
+      switch (params.type) {
+        case StepType.StepOver:
+          await session.customRequest('next', stepArgs);
+          break;
+        case StepType.StepInto:
+          if (params.targetId !== undefined) {
+            this.requireCapability(session, 'supportsStepInTargetsRequest', 'choosing a step-in target');
+          }
+          await session.customRequest('stepIn', { ...stepArgs, targetId: params.targetId });
+          break;
+        case StepType.StepOut:
+          await session.customRequest('stepOut', stepArgs);
+          break;
+        case StepType.Continue:
+          await session.customRequest('continue', { threadId, singleThread: stepArgs.singleThread });
+          break;
+        case StepType.Pause:
+          await session.customRequest('pause', { threadId });
+          break;
+        case StepType.StepBack:
+          this.requireCapability(session, 'supportsStepBack', 'stepping back');
+          await session.customRequest('stepBack', stepArgs);
+          break;
+        case StepType.ReverseContinue:
+          this.requireCapability(session, 'supportsStepBack', 'reverse continue');
+          await session.customRequest('reverseContinue', { threadId, singleThread: stepArgs.singleThread });
+          break;
+        case StepType.RestartFrame: {
+          this.requireCapability(session, 'supportsRestartFrame', 'restarting frames');
+          const frameId = params.frameId ?? (await this.getTopFrame(session, threadId))?.id;
+          if (frameId === undefined) {
+            throw new Error(`Thread ${threadId} has no frame to restart`);
+          }
+          await session.customRequest('restartFrame', { frameId });
+          break;
+        }
+        case StepType.Goto:
+          await session.customRequest('goto', { threadId, targetId: await this.getGotoTarget(session, params) });
+          break;
+        case StepType.TerminateThread:
+          this.requireCapability(session, 'supportsTerminateThreadsRequest', 'terminating threads');
+          if (params.threadId === undefined) {
+            throw new Error('threadId is required to terminate a thread');
+          }
+          await session.customRequest('terminateThreads', { threadIds: [params.threadId] });
+          break;
+        default:
+          throw new Error(`Unknown step type: ${params.type}`);
+      }
+    };
+
+    if (!params.waitForStop) {
+      await sendStep();
+      return undefined;
+    }
+
+    return this.runAndWaitForStop(session.id, params.timeout, sendStep);
+  }
+
+  /** Breakpoints of every kind, with adapter details from the active session. */
+  getBreakpoints(): BreakpointInfo[] {
+    return this.listBreakpoints(vscode.debug.activeDebugSession);
+  }
+
+  private listBreakpoints(session: vscode.DebugSession | undefined): BreakpointInfo[] {
+    const breakpoints: BreakpointInfo[] = [];
+
+    for (const bp of vscode.debug.breakpoints) {
+      const info = this.describeBreakpoint(bp, session);
+      if (info) {
+        breakpoints.push(info);
+      }
+    }
+
+    // Exception and data breakpoints only exist inside a debug session
+    if (session) {
+      const filters = this.getExceptionFilters(session);
+      const exceptionBreakpoints = this.debugEvents.getExceptionBreakpoints(session.id);
+      for (const filterId of exceptionBreakpoints?.filters || []) {
+        breakpoints.push({
+          type: 'exception',
+          filterId,
+          label: filters.find(f => f.filter === filterId)?.label,
+          enabled: true,
+          condition: exceptionBreakpoints?.filterOptions?.find(option => option.filterId === filterId)?.condition
+        });
+      }
+
+      for (const bp of this.debugEvents.getDataBreakpoints(session.id)) {
+        breakpoints.push({
+          type: 'data',
+          dataId: bp.dataId,
+          accessType: bp.accessType,
+          enabled: true,
+          condition: bp.condition
+        });
+      }
+    }
+
+    return breakpoints;
+  }
+
+  /** Describes a source or function breakpoint, including how the session's adapter bound it. */
+  describeBreakpoint(bp: vscode.Breakpoint, session: vscode.DebugSession | undefined = vscode.debug.activeDebugSession): BreakpointInfo | undefined {
+    let info: BreakpointInfo;
+    let bound: AdapterBreakpoint | undefined;
+
+    if (bp instanceof vscode.SourceBreakpoint) {
+      const line = bp.location.range.start.line + 1;
+      const column = bp.location.range.start.character > 0 ? bp.location.range.start.character + 1 : undefined;
+      info = {
+        type: 'source',
+        path: this.getRelativePath(bp.location.uri.fsPath),
+        line,
+        column,
+        enabled: bp.enabled,
+        condition: bp.condition,
+        hitCondition: bp.hitCondition,
+        logMessage: bp.logMessage
+      };
+      bound = session && this.debugEvents.getSourceBreakpoint(session.id, bp.location.uri.fsPath, line, column);
+    } else if (bp instanceof vscode.FunctionBreakpoint) {
+      info = {
+        type: 'function',
+        functionName: bp.functionName,
+        enabled: bp.enabled,
+        condition: bp.condition,
+        hitCondition: bp.hitCondition
+      };
+      bound = session && this.debugEvents.getFunctionBreakpoint(session.id, bp.functionName);
+    } else {
+      return undefined;
+    }
+
+    if (bound) {
+      info.id = bound.id;
+      info.verified = bound.verified;
+      info.actualLine = bound.line;
+      info.actualColumn = bound.column;
+      info.message = bound.message;
+    }
+
+    return info;
+  }
+
+  private getWatches(): WatchExpression[] {
+    return this.workspaceState.get<WatchExpression[]>(WATCHES_STATE_KEY, []);
+  }
+
+  private withEnabled(bp: vscode.Breakpoint, enabled: boolean): vscode.Breakpoint {
+    if (bp instanceof vscode.SourceBreakpoint) {
+      return new vscode.SourceBreakpoint(bp.location, enabled, bp.condition, bp.hitCondition, bp.logMessage);
+    }
+    const functionBp = bp as vscode.FunctionBreakpoint;
+    return new vscode.FunctionBreakpoint(functionBp.functionName, enabled, functionBp.condition, functionBp.hitCondition, functionBp.logMessage);
+  }
+
+  private collectLogpointOutput(event: DebugEvent): void {
+    if (event.event !== 'output' || !event.source?.path || !event.line) {
+      return;
+    }
+
+    // Output is attributed to a logpoint when it comes from a logpoint's location
+    const sourcePath = path.normalize(event.source.path);
+    const isLogpoint = vscode.debug.breakpoints.some(bp =>
+      bp instanceof vscode.SourceBreakpoint &&
+      !!bp.logMessage &&
+      path.normalize(bp.location.uri.fsPath) === sourcePath &&
+      bp.location.range.start.line + 1 === event.line
+    );
+    if (!isLogpoint) {
+      return;
+    }
+
+    this.logpointOutput.push({
+      cursor: this.nextLogpointCursor++,
+      timestamp: event.timestamp,
+      sessionId: event.session.id,
+      path: this.getRelativePath(event.source.path),
+      line: event.line,
+      message: (event.output || '').replace(/\r?\n$/, '')
+    });
+
+    if (this.logpointOutput.length > MAX_LOGPOINT_OUTPUT) {
+      this.logpointOutput.splice(0, this.logpointOutput.length - MAX_LOGPOINT_OUTPUT);
+    }
+  }
+
+  private getExceptionFilters(session: vscode.DebugSession): { filter: string; label: string }[] {
+    const filters: any[] = this.debugEvents.getCapabilities(session.id).exceptionBreakpointFilters || [];
+    return filters.map(f => ({ filter: f.filter, label: f.label }));
+  }
+
+  listSessions(): SessionInfo[] {
+    const activeId = vscode.debug.activeDebugSession?.id;
+
+    return this.debugEvents.listSessions().map(({ session, state }) => ({
+      id: session.id,
+      name: session.name,
+      type: session.type,
+      request: session.configuration.request,
+      parentId: session.parentSession?.id,
+      state,
+      isActive: session.id === activeId
+    }));
+  }
+
+  async getTopFrame(session: vscode.DebugSession, threadId: number): Promise<StackFrameInfo | undefined> {
+    try {
+      const response = await session.customRequest('stackTrace', { threadId, startFrame: 0, levels: 1 });
+      const frame = response?.stackFrames?.[0];
+      return frame ? this.toStackFrameInfo(frame, session) : undefined;
+    } catch {
+      // The thread may already be running again by the time we ask
+      return undefined;
+    }
+  }
+
+  async getStepInTargets(params: StepInTargetsParams = {}): Promise<StepInTarget[]> {
+    const session = this.resolveSession(params.sessionId);
+    this.requireCapability(session, 'supportsStepInTargetsRequest', 'step-in targets');
+
+    const frameId = params.frameId ?? (await this.getTopFrame(session, await this.getDefaultThreadId(session)))?.id;
+    if (frameId === undefined) {
+      throw new Error('No stack frame available; is the session paused?');
+    }
+
+    const response = await session.customRequest('stepInTargets', { frameId });
+    return (response?.targets || []).map((target: any) => ({
+      id: target.id,
+      label: target.label,
+      line: target.line,
+      column: target.column,
+      endLine: target.endLine,
+      endColumn: target.endColumn
+    }));
+  }
+
+  private getStepArguments(session: vscode.DebugSession, threadId: number, params: StepParams): { threadId: number; granularity?: string; singleThread?: boolean } {
+    if (params.granularity) {
+      this.requireCapability(session, 'supportsSteppingGranularity', 'stepping granularity');
+    }
+    if (params.singleThread) {
+      this.requireCapability(session, 'supportsSingleThreadExecutionRequests', 'single-thread execution');
+    }
+
+    return { threadId, granularity: params.granularity, singleThread: params.singleThread || undefined };
+  }
+
+  private async restartSession(session: vscode.DebugSession, params: StepParams): Promise<StopResult | undefined> {
+    if (this.debugEvents.getCapabilities(session.id).supportsRestartRequest) {
+      const restart = async () => {
+        await session.customRequest('restart', { arguments: session.configuration });
+      };
+      if (!params.waitForStop) {
+        await restart();
+        return undefined;
+      }
+      return this.runAndWaitForStop(session.id, params.timeout, restart);
+    }
+
+    // Without a restart request, stop the session and launch it again
+    const terminated = this.debugEvents.waitForStop(session.id, RESTART_TERMINATE_TIMEOUT_MS);
+    await vscode.debug.stopDebugging(session);
+    await terminated;
+
+    const relaunch = async () => {
+      const started = await vscode.debug.startDebugging(session.workspaceFolder, session.configuration);
+      if (!started) {
+        throw new Error(`Failed to relaunch debug session '${session.name}'`);
+      }
+    };
+    if (!params.waitForStop) {
+      await relaunch();
+      return undefined;
+    }
+
+    // The relaunched session gets a new id, so wait for a stop in any session. The old
+    // session has terminated by now, so its own events cannot end the wait.
+    return this.runAndWaitForStop(undefined, params.timeout, relaunch);
+  }
+
+  private async runToLine(session: vscode.DebugSession, params: StepParams): Promise<StopResult | undefined> {
+    if (!params.path || !params.line) {
+      throw new Error('path and line are required to run to a line');
+    }
+
+    const absolutePath = this.resolveFilePath(params.path);
+    const threadId = params.threadId ?? await this.getDefaultThreadId(session);
+    const alreadySet = vscode.debug.breakpoints.some(bp =>
+      bp instanceof vscode.SourceBreakpoint &&
+      bp.enabled &&
+      bp.location.uri.fsPath === absolutePath &&
+      bp.location.range.start.line === params.line! - 1
+    );
+
+    let temporary: vscode.SourceBreakpoint | undefined;
+    if (!alreadySet) {
+      temporary = new vscode.SourceBreakpoint(new vscode.Location(
+        vscode.Uri.file(absolutePath),
+        new vscode.Position(params.line - 1, Math.max((params.column ?? 1) - 1, 0))
+      ));
+      const bound = this.debugEvents.waitForBreakpointUpdate(session.id, absolutePath, BREAKPOINT_BIND_TIMEOUT_MS);
+      vscode.debug.addBreakpoints([temporary]);
+      await bound;
+
+      // Remove it at the next stop, whether or not it was the one that was hit
+      this.debugEvents.waitForStop(session.id, MAX_WAIT_TIMEOUT_MS).then(() => {
+        vscode.debug.removeBreakpoints([temporary!]);
+      });
+    }
+
+    const resume = async () => {
+      try {
+        await session.customRequest('continue', { threadId });
+      } catch (error) {
+        if (temporary) {
+          vscode.debug.removeBreakpoints([temporary]);
+        }
+        throw error;
+      }
+    };
+
+    if (!params.waitForStop) {
+      await resume();
+      return undefined;
+    }
+
+    return this.runAndWaitForStop(session.id, params.timeout, resume);
+  }
+
+  private async getGotoTarget(session: vscode.DebugSession, params: StepParams): Promise<number> {
+    this.requireCapability(session, 'supportsGotoTargetsRequest', 'jumping to a location');
+    if (!params.path || !params.line) {
+      throw new Error('path and line are required for goto');
+    }
+
+    const response = await session.customRequest('gotoTargets', {
+      source: { path: this.resolveFilePath(params.path) },
+      line: params.line,
+      column: params.column
+    });
+    const targets: any[] = response?.targets || [];
+    const target = params.targetId !== undefined
+      ? targets.find(candidate => candidate.id === params.targetId)
+      : targets[0];
+
+    if (!target) {
+      throw new Error(`No goto target at ${params.path}:${params.line}`);
+    }
+    return target.id;
+  }
+
+  private requireCapability(session: vscode.DebugSession, capability: string, description: string): void {
+    if (!this.debugEvents.getCapabilities(session.id)[capability]) {
+      throw new Error(`Debug adapter '${session.type}' does not support ${description}`);
+    }
+  }
+
+  private async runAndWaitForStop(
+    sessionId: string | undefined,
+    timeout: number | undefined,
+    action: () => Promise<void>
+  ): Promise<StopResult> {
+    // Subscribe before acting so a stop that arrives quickly is not missed
+    const stopped = this.debugEvents.waitForStop(sessionId, this.getWaitTimeout(timeout));
+    await action();
+    return this.toStopResult(await stopped);
+  }
+
+  private async toStopResult(event: DebugEvent | undefined, frames?: number): Promise<StopResult> {
+    if (!event) {
+      return { status: 'timeout' };
+    }
+
+    const result: StopResult = {
+      status: event.event === 'stopped' ? 'stopped' : 'terminated',
+      session: event.session
+    };
+    if (event.event !== 'stopped') {
+      return result;
+    }
+
+    result.reason = event.reason;
+    result.description = event.description;
+    result.threadId = event.threadId;
+    result.hitBreakpointIds = event.hitBreakpointIds;
+
+    const session = this.debugEvents.getSession(event.session.id);
+    if (!session || event.threadId === undefined) {
+      return result;
+    }
+
+    try {
+      const response = await session.customRequest('stackTrace', {
+        threadId: event.threadId,
+        startFrame: 0,
+        levels: this.clamp(frames ?? DEFAULT_STOP_FRAMES, 1, 100)
+      });
+      const rawFrames: any[] = response?.stackFrames || [];
+      result.stackFrames = rawFrames.map(frame => this.toStackFrameInfo(frame, session));
+
+      const top = rawFrames[0];
+      if (top?.source?.path && top.line > 0) {
+        result.sourceLine = await this.readSourceLine(top.source.path, top.line);
+      }
+    } catch {
+      // The thread may have resumed already; the stop reason is still useful
+    }
+
+    return result;
+  }
+
+  private async readSourceLine(filePath: string, line: number): Promise<string | undefined> {
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      return line <= document.lineCount ? document.lineAt(line - 1).text.trim() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getWaitTimeout(timeout?: number): number {
+    return this.clamp(timeout ?? DEFAULT_WAIT_TIMEOUT_MS, 0, MAX_WAIT_TIMEOUT_MS);
+  }
+
+  private async getDefaultThreadId(session: vscode.DebugSession): Promise<number> {
+    const stoppedThreadId = this.debugEvents.getLastStop(session.id)?.threadId;
+    if (stoppedThreadId !== undefined) {
+      return stoppedThreadId;
+    }
+
+    try {
+      const threadsResponse = await session.customRequest('threads');
+      return threadsResponse?.threads?.[0]?.id ?? 1; // Default to thread 1
+    } catch {
+      return 1; // Default to thread 1 if threads not supported
+    }
+  }
+
+  private toExceptionDetails(details: any): ExceptionDetails {
+    return {
+      message: details.message,
+      typeName: details.typeName,
+      fullTypeName: details.fullTypeName,
+      evaluateName: details.evaluateName,
+      stackTrace: details.stackTrace,
+      innerException: Array.isArray(details.innerException)
+        ? details.innerException.map((inner: any) => this.toExceptionDetails(inner))
+        : undefined
+    };
+  }
+
+  private toStackFrameInfo(frame: any, session: vscode.DebugSession): StackFrameInfo {
+    return {
+      id: frame.id,
+      name: frame.name,
+      source: frame.source ? {
+        path: frame.source.path ? this.getRelativePath(frame.source.path) : undefined,
+        name: frame.source.name,
+        sourceReference: frame.source.sourceReference || undefined,
+        presentationHint: frame.source.presentationHint,
+        origin: frame.source.origin
+      } : undefined,
+      line: frame.line,
+      column: frame.column,
+      presentationHint: frame.presentationHint,
+      moduleId: frame.moduleId,
+      moduleName: frame.moduleId !== undefined ? this.debugEvents.getModule(session.id, frame.moduleId)?.name : undefined
+    };
+  }
+
+  private async fetchVariables(
+    session: vscode.DebugSession,
+    variablesReference: number,
+    depth: number,
+    maxItems: number,
+    start: number,
+    budget: { nodes: number },
+    filter?: 'indexed' | 'named'
+  ): Promise<{ variables: VariableInfo[]; truncated: boolean }> {
+    // Adapters only reliably page indexed children; other lists are fetched whole and
+    // paged locally. Ask for one extra item so we can tell whether the list was cut off.
+    const adapterPaging = filter === 'indexed';
+    const response = await session.customRequest('variables', {
+      variablesReference,
+      filter,
+      start: adapterPaging ? start : undefined,
+      count: adapterPaging ? maxItems + 1 : undefined
+    });
+
+    let raw: any[] = response?.variables || [];
+    if (!adapterPaging) {
+      raw = raw.slice(start, start + maxItems + 1);
+    }
+    const limit = Math.min(maxItems, budget.nodes);
+    const truncated = raw.length > limit;
+
+    const variables: VariableInfo[] = [];
+    for (const variable of raw.slice(0, limit)) {
+      budget.nodes--;
+      const info: VariableInfo = {
+        name: variable.name,
+        value: variable.value,
+        type: variable.type,
+        evaluateName: variable.evaluateName,
+        variablesReference: variable.variablesReference || 0,
+        namedVariables: variable.namedVariables,
+        indexedVariables: variable.indexedVariables
+      };
+
+      if (depth > 1 && info.variablesReference > 0 && budget.nodes > 0) {
+        try {
+          const nested = await this.fetchVariables(session, info.variablesReference, depth - 1, maxItems, 0, budget);
+          info.children = nested.variables;
+          info.truncated = nested.truncated || undefined;
+        } catch {
+          // Leave the handle in place so the caller can retry the expansion
+        }
+      }
+
+      variables.push(info);
+    }
+
+    return { variables, truncated };
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(Math.floor(value), min), max);
+  }
+
+  /** Returns the addressed debug session, or the active one when no id is given. */
+  private resolveSession(sessionId?: string): vscode.DebugSession {
+    if (sessionId) {
+      const session = this.debugEvents.getSession(sessionId);
+      if (!session) {
+        throw new Error(`Debug session '${sessionId}' not found`);
+      }
+      return session;
+    }
+
     const session = vscode.debug.activeDebugSession;
     if (!session) {
       throw new Error('No active debug session');
     }
+    return session;
+  }
 
-    // If no threadId specified, try to get the active thread
-    let threadId = params.threadId;
-    if (!threadId) {
-      try {
-        const threadsResponse = await session.customRequest('threads');
-        if (threadsResponse.threads && threadsResponse.threads.length > 0) {
-          threadId = threadsResponse.threads[0].id;
-        } else {
-          threadId = 1; // Default to thread 1
+  private resolveWorkspaceFolder(folder?: string): vscode.WorkspaceFolder | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    if (!folder) {
+      return workspaceFolders[0];
+    }
+
+    const found = workspaceFolders.find(candidate =>
+      candidate.name === folder || path.resolve(candidate.uri.fsPath) === path.resolve(folder)
+    );
+    if (!found) {
+      throw new Error(`Workspace folder '${folder}' not found`);
+    }
+    return found;
+  }
+
+  private getWorkspaceFolder(name: string | undefined): vscode.WorkspaceFolder | undefined {
+    return name ? vscode.workspace.workspaceFolders?.find(folder => folder.name === name) : undefined;
+  }
+
+  private toInlineConfiguration(configuration: InlineDebugConfiguration, folder: vscode.WorkspaceFolder | undefined): DebugConfiguration {
+    if (!configuration.type || !configuration.request) {
+      throw new Error('Inline debug configurations need a type and a request ("launch" or "attach")');
+    }
+
+    const config: DebugConfiguration = {
+      ...configuration,
+      name: configuration.name || `${configuration.type} ${configuration.request}`
+    };
+
+    // Most adapters want absolute paths, so relative ones are taken from the workspace folder
+    if (folder) {
+      for (const key of ['program', 'cwd']) {
+        if (typeof config[key] === 'string' && !config[key].includes('${') && !path.isAbsolute(config[key])) {
+          config[key] = path.join(folder.uri.fsPath, config[key]);
         }
-      } catch {
-        threadId = 1; // Default to thread 1 if threads not supported
       }
     }
 
-    switch (params.type) {
-      case StepType.StepOver:
-        await session.customRequest('next', { threadId });
-        break;
-      case StepType.StepInto:
-        await session.customRequest('stepIn', { threadId });
-        break;
-      case StepType.StepOut:
-        await session.customRequest('stepOut', { threadId });
-        break;
-      case StepType.Continue:
-        await session.customRequest('continue', { threadId });
-        break;
-      case StepType.Pause:
-        await session.customRequest('pause', { threadId });
-        break;
-      default:
-        throw new Error(`Unknown step type: ${params.type}`);
-    }
+    return config;
   }
 
   private resolveFilePath(filePath: string): string {
@@ -263,6 +1343,34 @@ export class DebuggerTools {
     return path.join(workspaceFolders[0].uri.fsPath, filePath);
   }
 
+  /**
+   * get_source runs without approval, so a path may only name a file inside a
+   * workspace folder or the source of a current stack frame.
+   */
+  private resolveReadablePath(filePath: string): string {
+    const resolved = this.resolveFilePath(filePath);
+    const real = this.realPath(resolved);
+
+    const inWorkspace = (vscode.workspace.workspaceFolders || []).some(folder => {
+      const relative = path.relative(this.realPath(folder.uri.fsPath), real);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+    if (!inWorkspace && !this.debugEvents.isFrameSource(resolved) && !this.debugEvents.isFrameSource(real)) {
+      throw new Error(`'${filePath}' is outside the workspace and not the source of a current stack frame`);
+    }
+
+    return resolved;
+  }
+
+  private realPath(filePath: string): string {
+    try {
+      // Follow symlinks so a link inside the workspace cannot point outside it
+      return fs.realpathSync(filePath);
+    } catch {
+      return path.resolve(filePath);
+    }
+  }
+
   private getRelativePath(absolutePath: string): string {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Shared by the extension and the stdio bridge, so this module must not import 'vscode'
+
+export interface ServerInfo {
+  port: number;
+  host: string;
+  pid: number;
+  workspaceFolders: string[];
+  // Bearer token for the server; the file is only readable by the current user
+  token: string;
+  startedAt: string;
+}
+
+export function getDiscoveryDirectory(): string {
+  return path.join(os.homedir(), '.vscode-debugger-mcp', 'servers');
+}
+
+/**
+ * Records a running server. Each window writes its own file, named after its
+ * process id, so windows starting at the same time cannot overwrite each other.
+ */
+export function registerServer(info: ServerInfo): void {
+  const directory = getDiscoveryDirectory();
+  fs.mkdirSync(directory, { recursive: true, mode: 0o700 });
+
+  // Write under a temporary name first so readers never see a half-written file
+  const filePath = getServerFilePath(info.pid);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(info, null, 2), { encoding: 'utf8', mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+
+  // Windows that crashed never unregister themselves
+  for (const stale of listServerFiles().filter(file => !file.alive)) {
+    removeFile(stale.path);
+  }
+}
+
+export function unregisterServer(pid: number = process.pid): void {
+  removeFile(getServerFilePath(pid));
+}
+
+/** Returns the servers of all VS Code windows that are still alive. */
+export function readServers(): ServerInfo[] {
+  const servers: ServerInfo[] = [];
+  for (const file of listServerFiles().filter(file => file.alive)) {
+    try {
+      const server = JSON.parse(fs.readFileSync(file.path, 'utf8'));
+      if (typeof server?.port === 'number') {
+        servers.push(server);
+      }
+    } catch {
+      // Removed or replaced while we were reading it
+    }
+  }
+  return servers;
+}
+
+/**
+ * Picks the server whose workspace contains the given directory, preferring the
+ * most specific folder, and falls back to the most recently started server.
+ */
+export function findServer(directory?: string): ServerInfo | undefined {
+  const servers = readServers();
+  if (directory) {
+    const target = path.resolve(directory);
+    let best: { server: ServerInfo; length: number } | undefined;
+
+    for (const server of servers) {
+      for (const folder of server.workspaceFolders || []) {
+        const relative = path.relative(folder, target);
+        const contains = !relative.startsWith('..') && !path.isAbsolute(relative);
+        if (contains && (!best || folder.length > best.length)) {
+          best = { server, length: folder.length };
+        }
+      }
+    }
+
+    if (best) {
+      return best.server;
+    }
+  }
+
+  return servers.sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+}
+
+function getServerFilePath(pid: number): string {
+  return path.join(getDiscoveryDirectory(), `${pid}.json`);
+}
+
+function listServerFiles(): { path: string; alive: boolean }[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(getDiscoveryDirectory());
+  } catch {
+    return [];
+  }
+
+  return names
+    .filter(name => /^\d+\.json$/.test(name))
+    .map(name => ({
+      path: path.join(getDiscoveryDirectory(), name),
+      alive: isProcessAlive(parseInt(name, 10))
+    }));
+}
+
+function removeFile(filePath: string): void {
+  try {
+    fs.unlinkSync(filePath);
+  } catch {
+    // Already gone
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to someone else
+    return error?.code === 'EPERM';
+  }
+}
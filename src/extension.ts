@@ -1,30 +1,41 @@
 import * as vscode from 'vscode';
-import { SSEServer } from './sseServer';
+import { SSEServer, DEFAULT_PORT, DEFAULT_HOST } from './sseServer';
+import { DebugEventTracker } from './debugEventTracker';
+import { getAuthToken, regenerateAuthToken } from './auth';
 
 let sseServer: SSEServer | null = null;
 let outputChannel: vscode.OutputChannel;
+let debugEvents: DebugEventTracker;
 
 export function activate(context: vscode.ExtensionContext) {
   outputChannel = vscode.window.createOutputChannel('VSCode Debugger MCP');
   outputChannel.appendLine('VSCode Debugger MCP extension activated');
 
+  // Track debug adapter events for all debug types
+  debugEvents = new DebugEventTracker();
+  context.subscriptions.push(
+    debugEvents,
+    vscode.debug.registerDebugAdapterTrackerFactory('*', debugEvents)
+  );
+
   // Create SSE server instance
-  sseServer = new SSEServer(context);
+  sseServer = new SSEServer(context, debugEvents);
 
   // Register start server command
   const startServerCommand = vscode.commands.registerCommand('vscode-debugger-mcp.startServer', async () => {
     if (!sseServer) {
-      sseServer = new SSEServer(context);
+      sseServer = new SSEServer(context, debugEvents);
     }
 
     if (sseServer.isRunning()) {
-      vscode.window.showInformationMessage('MCP Debug Server is already running on http://localhost:6010/sse');
+      vscode.window.showInformationMessage(`MCP Debug Server is already running on ${sseServer.getUrl()}/mcp`);
       return;
     }
 
     try {
-      await sseServer.start(6010);
-      vscode.window.showInformationMessage('MCP Debug Server started on http://localhost:6010/sse');
+      const config = vscode.workspace.getConfiguration('vscodeDebuggerMcp');
+      await sseServer.start(config.get<number>('port', DEFAULT_PORT), config.get<string>('host', DEFAULT_HOST));
+      vscode.window.showInformationMessage(`MCP Debug Server started on ${sseServer.getUrl()}/mcp`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       vscode.window.showErrorMessage(`Failed to start MCP Debug Server: ${errorMessage}`);
@@ -49,8 +60,39 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
+  // Register token commands
+  const copyTokenCommand = vscode.commands.registerCommand('vscode-debugger-mcp.copyToken', async () => {
+    await vscode.env.clipboard.writeText(await getAuthToken(context.secrets));
+    vscode.window.showInformationMessage('MCP Debug Server access token copied. Send it as "Authorization: Bearer <token>".');
+  });
+
+  const regenerateTokenCommand = vscode.commands.registerCommand('vscode-debugger-mcp.regenerateToken', async () => {
+    await regenerateAuthToken(context.secrets);
+
+    // Restart so the running server only accepts the new token
+    if (sseServer && sseServer.isRunning()) {
+      await vscode.commands.executeCommand('vscode-debugger-mcp.stopServer');
+      await vscode.commands.executeCommand('vscode-debugger-mcp.startServer');
+    }
+    vscode.window.showInformationMessage('MCP Debug Server access token regenerated. Existing clients must use the new token.');
+  });
+
   // Auto-start server on activation
-  vscode.commands.executeCommand('vscode-debugger-mcp.startServer');
+  if (vscode.workspace.getConfiguration('vscodeDebuggerMcp').get<boolean>('autoStart', true)) {
+    vscode.commands.executeCommand('vscode-debugger-mcp.startServer');
+  }
+
+  // Rebind when the address settings change
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (event) => {
+      const addressChanged = event.affectsConfiguration('vscodeDebuggerMcp.port') ||
+        event.affectsConfiguration('vscodeDebuggerMcp.host');
+      if (addressChanged && sseServer && sseServer.isRunning()) {
+        await vscode.commands.executeCommand('vscode-debugger-mcp.stopServer');
+        await vscode.commands.executeCommand('vscode-debugger-mcp.startServer');
+      }
+    })
+  );
 
   // Register status bar item
   const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -72,9 +114,11 @@ export function activate(context: vscode.ExtensionContext) {
   const updateStatusBar = () => {
     if (sseServer && sseServer.isRunning()) {
       statusBarItem.text = '$(debug-alt) MCP Debug Server (Running)';
+      statusBarItem.tooltip = `MCP Debug Server running on ${sseServer.getUrl()}/mcp. Click to stop`;
       statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.activeBackground');
     } else {
       statusBarItem.text = '$(debug-alt) MCP Debug Server (Stopped)';
+      statusBarItem.tooltip = 'Click to start MCP Debug Server';
       statusBarItem.backgroundColor = undefined;
     }
   };
@@ -88,6 +132,8 @@ export function activate(context: vscode.ExtensionContext) {
     startServerCommand,
     stopServerCommand,
     toggleServerCommand,
+    copyTokenCommand,
+    regenerateTokenCommand,
     statusBarItem,
     { dispose: () => clearInterval(statusInterval) }
   );
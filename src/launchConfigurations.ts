@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse, printParseErrorCode, ParseError } from 'jsonc-parser';
+import {
+  DebugConfiguration,
+  LaunchCompoundInfo,
+  LaunchConfigSource,
+  LaunchConfigurationInfo,
+  LaunchConfigurations
+} from './types';
+
+interface LaunchSection {
+  configurations?: DebugConfiguration[];
+  compounds?: any[];
+}
+
+/**
+ * Collects debug configurations and compounds from every place VS Code reads them:
+ * each folder's launch.json (or its settings.json without one), the .code-workspace file
+ * and user settings.
+ */
+export function loadLaunchConfigurations(): LaunchConfigurations {
+  const result: LaunchConfigurations = { configurations: [], compounds: [], errors: [] };
+
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const vscodeDir = path.join(folder.uri.fsPath, '.vscode');
+    const launchFile = path.join(vscodeDir, 'launch.json');
+    if (fs.existsSync(launchFile)) {
+      addSection(result, readJsonc(launchFile, result), 'launch.json', folder);
+    } else {
+      // VS Code only falls back to the settings' launch section when there is no launch.json
+      addSection(result, readJsonc(path.join(vscodeDir, 'settings.json'), result)?.launch, 'settings', folder);
+    }
+  }
+
+  const workspaceFile = vscode.workspace.workspaceFile;
+  if (workspaceFile?.scheme === 'file') {
+    addSection(result, readJsonc(workspaceFile.fsPath, result)?.launch, 'code-workspace');
+  }
+
+  const userLaunch = vscode.workspace.getConfiguration().inspect<LaunchSection>('launch')?.globalValue;
+  addSection(result, userLaunch, 'settings');
+
+  return result;
+}
+
+/**
+ * Resolves the ${...} variables that do not depend on the editor state. Others,
+ * such as ${file} or ${command:...}, are left for VS Code to resolve at launch.
+ * So is ${env:...}: listings are read without approval and must not reveal secrets.
+ */
+export function resolveVariables<T>(value: T, folder?: vscode.WorkspaceFolder): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([^}]+)\}/g, (match, name: string) => resolveVariable(name, folder) ?? match) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveVariables(item, folder)) as T;
+  }
+  if (value && typeof value === 'object') {
+    const resolved: any = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveVariables(item, folder);
+    }
+    return resolved;
+  }
+  return value;
+}
+
+function resolveVariable(name: string, folder?: vscode.WorkspaceFolder): string | undefined {
+  if (name.startsWith('workspaceFolder:')) {
+    const folderName = name.slice('workspaceFolder:'.length);
+    return vscode.workspace.workspaceFolders?.find(candidate => candidate.name === folderName)?.uri.fsPath;
+  }
+
+  switch (name) {
+    case 'workspaceFolder':
+    case 'workspaceRoot':
+      return folder?.uri.fsPath;
+    case 'workspaceFolderBasename':
+      return folder ? path.basename(folder.uri.fsPath) : undefined;
+    case 'userHome':
+      return os.homedir();
+    case 'pathSeparator':
+    case '/':
+      return path.sep;
+    default:
+      return undefined;
+  }
+}
+
+function addSection(
+  result: LaunchConfigurations,
+  section: LaunchSection | undefined,
+  source: LaunchConfigSource,
+  folder?: vscode.WorkspaceFolder
+): void {
+  if (!section || typeof section !== 'object') {
+    return;
+  }
+
+  for (const configuration of Array.isArray(section.configurations) ? section.configurations : []) {
+    if (!configuration || typeof configuration.name !== 'string') {
+      continue;
+    }
+    const info: LaunchConfigurationInfo = {
+      name: configuration.name,
+      folder: folder?.name,
+      source,
+      configuration: resolveVariables(configuration, folder)
+    };
+    result.configurations.push(info);
+  }
+
+  for (const compound of Array.isArray(section.compounds) ? section.compounds : []) {
+    if (!compound || typeof compound.name !== 'string') {
+      continue;
+    }
+    const info: LaunchCompoundInfo = {
+      name: compound.name,
+      folder: folder?.name,
+      source,
+      configurations: Array.isArray(compound.configurations) ? compound.configurations : [],
+      stopAll: compound.stopAll,
+      preLaunchTask: compound.preLaunchTask
+    };
+    result.compounds.push(info);
+  }
+}
+
+function readJsonc(filePath: string, result: LaunchConfigurations): any {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+
+  // Like VS Code, tolerate comments and trailing commas, and report real syntax errors
+  const errors: ParseError[] = [];
+  const value = parse(content, errors, { allowTrailingComma: true });
+  for (const error of errors) {
+    result.errors.push({ file: filePath, message: `${printParseErrorCode(error.error)} at offset ${error.offset}` });
+  }
+  return value;
+}
@@ -1,112 +1,270 @@
 import * as vscode from 'vscode';
 import { DebuggerTools } from './debuggerTools';
+import { DebugEventTracker } from './debugEventTracker';
+import { ToolPolicy } from './toolPolicy';
+import { DebugResources } from './debugResources';
+import { DebugPrompts } from './debugPrompts';
+import { validateArguments } from './schemaValidation';
+import { TOOL_SCHEMAS } from './toolSchemas.generated';
 import { 
   MCPRequest, 
   MCPResponse, 
+  MCPNotification,
+  DebugEvent,
   MCPErrorCode,
   MCPTool,
   BreakpointParams,
+  RemoveBreakpointParams,
+  RemoveFunctionBreakpointParams,
+  RemoveDataBreakpointParams,
+  AddWatchParams,
+  RemoveWatchParams,
+  BreakpointEnablementParams,
+  LogpointOutputParams,
+  OutputParams,
+  ExceptionInfoParams,
+  StepInTargetsParams,
+  FunctionBreakpointParams,
+  ExceptionBreakpointsParams,
+  DataBreakpointParams,
   EvaluateParams,
-  StepParams
+  StepParams,
+  StartDebuggingParams,
+  WaitForStopParams,
+  SessionParams,
+  ThreadsParams,
+  StackTraceParams,
+  SourceParams,
+  SetVariableParams,
+  ScopesParams,
+  VariablesParams
 } from './types';
 
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+interface ToolRequirement {
+  // Only listed while a debug session exists
+  session?: boolean;
+  // Only listed while some session's adapter reports this DAP capability
+  capability?: string;
+}
+
+// Tools missing here are always listed
+const TOOL_REQUIREMENTS: Record<string, ToolRequirement> = {
+  set_exception_breakpoints: { session: true },
+  set_data_breakpoint: { capability: 'supportsDataBreakpoints' },
+  remove_data_breakpoint: { capability: 'supportsDataBreakpoints' },
+  evaluate_expression: { session: true },
+  get_scopes: { session: true },
+  get_variables: { session: true },
+  set_variable: { session: true },
+  stop_debugging: { session: true },
+  get_exception_info: { capability: 'supportsExceptionInfoRequest' },
+  get_threads: { session: true },
+  get_stack_trace: { session: true },
+  step_debugger: { session: true },
+  get_step_in_targets: { capability: 'supportsStepInTargetsRequest' }
+};
+
 export class MCPServer {
   private debuggerTools: DebuggerTools;
+  private debugEvents: DebugEventTracker;
+  private toolPolicy = new ToolPolicy();
+  private notificationEmitter = new vscode.EventEmitter<MCPNotification>();
+  private clientNotificationEmitter = new vscode.EventEmitter<{ clientId: string; notification: MCPNotification }>();
+  private resources: DebugResources;
+  private prompts: DebugPrompts;
+  // Client sessions subscribed to each resource URI
+  private resourceSubscriptions: Map<string, Set<string>> = new Map();
+  // Available tool names when the list was last checked for changes
+  private listedTools = '';
+  // Tail of each session's notification queue, so events go out in the order they happened
+  private eventQueues: Map<string, Promise<void>> = new Map();
+  // Whether any client has an open event stream to receive notifications on
+  private hasOpenStreams: () => boolean;
+
+  /** Fired for server-initiated messages that should be pushed to connected clients. */
+  readonly onNotification = this.notificationEmitter.event;
+
+  /** Fired for server-initiated messages meant for a single client session. */
+  readonly onClientNotification = this.clientNotificationEmitter.event;
+
   private tools: MCPTool[] = [
     {
       name: 'set_breakpoint',
-      description: 'Set a breakpoint at a specific line in a file',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          path: { type: 'string', description: 'File path (absolute or relative to workspace)' },
-          line: { type: 'number', description: 'Line number (1-based)' },
-          condition: { type: 'string', description: 'Optional breakpoint condition' }
-        },
-        required: ['path', 'line']
-      }
+      description: 'Set a breakpoint or logpoint at a specific line in a file',
+      inputSchema: TOOL_SCHEMAS.BreakpointParams
     },
     {
       name: 'remove_breakpoint',
       description: 'Remove a breakpoint at a specific line in a file',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          path: { type: 'string', description: 'File path (absolute or relative to workspace)' },
-          line: { type: 'number', description: 'Line number (1-based)' }
-        },
-        required: ['path', 'line']
-      }
+      inputSchema: TOOL_SCHEMAS.RemoveBreakpointParams
+    },
+    {
+      name: 'set_breakpoint_enabled',
+      description: 'Enable or disable existing breakpoints without removing them. Identify source breakpoints by path and line, function breakpoints by functionName',
+      inputSchema: TOOL_SCHEMAS.BreakpointEnablementParams
+    },
+    {
+      name: 'get_logpoint_output',
+      description: 'Get messages produced by logpoints, oldest first. Pass the returned nextCursor as since to fetch only newer messages',
+      inputSchema: TOOL_SCHEMAS.LogpointOutputParams
+    },
+    {
+      name: 'get_output',
+      description: 'Get debug console output (program stdout/stderr and adapter messages), oldest first. Output is kept after the session ends and cleared when it restarts. Pass the returned nextCursor as since to fetch only newer output',
+      inputSchema: TOOL_SCHEMAS.OutputParams
+    },
+    {
+      name: 'set_function_breakpoint',
+      description: 'Set a breakpoint that triggers when a function with the given name is entered',
+      inputSchema: TOOL_SCHEMAS.FunctionBreakpointParams
+    },
+    {
+      name: 'remove_function_breakpoint',
+      description: 'Remove a function breakpoint by function name',
+      inputSchema: TOOL_SCHEMAS.RemoveFunctionBreakpointParams
+    },
+    {
+      name: 'set_exception_breakpoints',
+      description: 'Configure which exceptions pause execution in the active session (e.g. caught or uncaught). Replaces the current exception filters. VS Code resends its own filters when they change in the Breakpoints view, which replaces these',
+      inputSchema: TOOL_SCHEMAS.ExceptionBreakpointsParams
+    },
+    {
+      name: 'set_data_breakpoint',
+      description: 'Break when a variable is read or written, for adapters that support data breakpoints. Lasts for this session only, and is dropped when VS Code resends its own data breakpoints',
+      inputSchema: TOOL_SCHEMAS.DataBreakpointParams
+    },
+    {
+      name: 'remove_data_breakpoint',
+      description: 'Remove a data breakpoint by its dataId',
+      inputSchema: TOOL_SCHEMAS.RemoveDataBreakpointParams
     },
     {
       name: 'evaluate_expression',
       description: 'Evaluate an expression in the current debug context',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          expression: { type: 'string', description: 'Expression to evaluate' },
-          frameId: { type: 'number', description: 'Optional stack frame ID' }
-        },
-        required: ['expression']
-      }
+      inputSchema: TOOL_SCHEMAS.EvaluateParams
+    },
+    {
+      name: 'get_source',
+      description: 'Get a window of source lines around a stack frame or file location, marking the current line and breakpoint lines. Works for sources that only exist in the debug adapter (sourceReference)',
+      inputSchema: TOOL_SCHEMAS.SourceParams
+    },
+    {
+      name: 'get_scopes',
+      description: 'Get the variable scopes (locals, closure, globals, ...) of a stack frame',
+      inputSchema: TOOL_SCHEMAS.ScopesParams
+    },
+    {
+      name: 'get_variables',
+      description: 'Get the children of a variablesReference, optionally expanding nested objects, arrays and maps',
+      inputSchema: TOOL_SCHEMAS.VariablesParams
+    },
+    {
+      name: 'set_variable',
+      description: 'Change the value of a variable (variablesReference + name) or of an assignable expression (expression + frameId) while paused',
+      inputSchema: TOOL_SCHEMAS.SetVariableParams
+    },
+    {
+      name: 'add_watch',
+      description: 'Add a watch expression. Watches are re-evaluated in the top frame on every stop and included in stop notifications and get_debug_status',
+      inputSchema: TOOL_SCHEMAS.AddWatchParams
+    },
+    {
+      name: 'remove_watch',
+      description: 'Remove a watch expression by id or by expression',
+      inputSchema: TOOL_SCHEMAS.RemoveWatchParams
+    },
+    {
+      name: 'list_watches',
+      description: 'List watch expressions with their most recent values',
+      inputSchema: TOOL_SCHEMAS.NoParams
     },
     {
       name: 'list_debug_configurations',
-      description: 'List all available debug configurations from launch.json',
-      inputSchema: {
-        type: 'object',
-        properties: {}
-      }
+      description: 'List debug configurations and compounds from launch.json, settings and the .code-workspace file, tagged with their workspace folder and source. Variables such as ${workspaceFolder} are resolved',
+      inputSchema: TOOL_SCHEMAS.NoParams
     },
     {
       name: 'start_debugging',
-      description: 'Start a debugging session',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          configName: { type: 'string', description: 'Optional configuration name to use' }
-        }
-      }
+      description: 'Start a debugging session from a launch.json configuration, or from an inline configuration to launch a program or attach to a process without editing launch.json',
+      inputSchema: TOOL_SCHEMAS.StartDebuggingParams
+    },
+    {
+      name: 'list_sessions',
+      description: 'List all debug sessions, including child sessions of compound or multi-process launches, with their state',
+      inputSchema: TOOL_SCHEMAS.NoParams
     },
     {
       name: 'stop_debugging',
       description: 'Stop the current debugging session',
-      inputSchema: {
-        type: 'object',
-        properties: {}
-      }
+      inputSchema: TOOL_SCHEMAS.SessionParams
     },
     {
       name: 'get_debug_status',
       description: 'Get the current debug status including active session, threads, stack frames, and breakpoints',
-      inputSchema: {
-        type: 'object',
-        properties: {}
-      }
+      inputSchema: TOOL_SCHEMAS.SessionParams
+    },
+    {
+      name: 'get_exception_info',
+      description: 'Get details of the exception a thread stopped on: exception id, description, break mode, and nested details with the inner exception chain and stack trace',
+      inputSchema: TOOL_SCHEMAS.ExceptionInfoParams
+    },
+    {
+      name: 'get_threads',
+      description: 'List the threads of a debug session, marking the ones that are stopped',
+      inputSchema: TOOL_SCHEMAS.ThreadsParams
+    },
+    {
+      name: 'get_stack_trace',
+      description: 'Get the call stack of a thread, with paging for deep stacks. Defaults to the thread that stopped',
+      inputSchema: TOOL_SCHEMAS.StackTraceParams
     },
     {
       name: 'step_debugger',
-      description: 'Control debugger stepping (step over, step into, step out, continue, pause)',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          type: { 
-            type: 'string', 
-            enum: ['stepOver', 'stepInto', 'stepOut', 'continue', 'pause'],
-            description: 'Type of step operation' 
-          },
-          threadId: { type: 'number', description: 'Optional thread ID' }
-        },
-        required: ['type']
-      }
+      description: 'Control execution: step over, step into, step out, continue, pause, restart the session, restart a frame, jump to a line (goto), run to a line, step back, reverse continue, or terminate a thread. Controls other than the basic steps depend on the debug adapter\'s capabilities',
+      inputSchema: TOOL_SCHEMAS.StepParams
+    },
+    {
+      name: 'get_step_in_targets',
+      description: 'List the calls that stepInto can enter from a frame, e.g. bar and foo on a line like foo(bar(x)). Pass a target id as targetId to step_debugger with type stepInto',
+      inputSchema: TOOL_SCHEMAS.StepInTargetsParams
+    },
+    {
+      name: 'wait_for_stop',
+      description: 'Wait until the debugger stops (breakpoint, step, exception) or the session terminates, then return the stop location',
+      inputSchema: TOOL_SCHEMAS.WaitForStopParams
     }
   ];
 
-  constructor(context: vscode.ExtensionContext) {
-    this.debuggerTools = new DebuggerTools(context);
+  constructor(
+    context: vscode.ExtensionContext,
+    debugEvents: DebugEventTracker,
+    outputChannel: vscode.OutputChannel,
+    hasOpenStreams: () => boolean
+  ) {
+    this.debuggerTools = new DebuggerTools(context, debugEvents);
+    this.debugEvents = debugEvents;
+    this.hasOpenStreams = hasOpenStreams;
+    this.resources = new DebugResources(context, debugEvents, this.debuggerTools);
+    this.prompts = new DebugPrompts(context, this.debuggerTools, outputChannel);
+
+    context.subscriptions.push(
+      this.notificationEmitter,
+      this.clientNotificationEmitter,
+      this.resources.onDidChange(uri => this.notifyResourceUpdated(uri)),
+      this.prompts.onDidChange(() => this.notificationEmitter.fire({
+        jsonrpc: '2.0',
+        method: 'notifications/prompts/list_changed'
+      })),
+      debugEvents.onDidReceiveEvent(event => this.handleDebugEvent(event)),
+      debugEvents.onDidChangeSessions(() => this.checkToolListChanged())
+    );
+    this.listedTools = this.getToolListKey();
   }
 
-  async handleRequest(request: MCPRequest): Promise<MCPResponse> {
+  /** clientId identifies the transport session, which resource subscriptions belong to. */
+  async handleRequest(request: MCPRequest, clientId?: string): Promise<MCPResponse> {
     try {
       // Validate request
       if (!request.jsonrpc || request.jsonrpc !== '2.0') {
@@ -121,10 +279,26 @@ export class MCPServer {
       switch (request.method) {
         case 'initialize':
           return this.handleInitialize(request);
+        case 'ping':
+          return { jsonrpc: '2.0', id: request.id, result: {} };
         case 'tools/list':
           return this.handleToolsList(request);
         case 'tools/call':
           return this.handleToolsCall(request);
+        case 'resources/list':
+          return this.handleResourcesList(request);
+        case 'resources/templates/list':
+          return { jsonrpc: '2.0', id: request.id, result: { resourceTemplates: [] } };
+        case 'resources/read':
+          return this.handleResourcesRead(request);
+        case 'resources/subscribe':
+          return this.handleResourcesSubscribe(request, clientId, true);
+        case 'resources/unsubscribe':
+          return this.handleResourcesSubscribe(request, clientId, false);
+        case 'prompts/list':
+          return this.handlePromptsList(request);
+        case 'prompts/get':
+          return this.handlePromptsGet(request);
         default:
           return this.createErrorResponse(request.id, MCPErrorCode.MethodNotFound, `Method '${request.method}' not found`);
       }
@@ -142,9 +316,11 @@ export class MCPServer {
       jsonrpc: '2.0',
       id: request.id,
       result: {
-        protocolVersion: '2024-11-05',
+        protocolVersion: this.negotiateProtocolVersion(request.params?.protocolVersion),
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
+          resources: { subscribe: true },
+          prompts: { listChanged: true },
           logging: {}
         },
         serverInfo: {
@@ -155,45 +331,160 @@ export class MCPServer {
     };
   }
 
+  private negotiateProtocolVersion(requested?: string): string {
+    // Echo the client's version when we speak it, otherwise offer our latest
+    return requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+  }
+
   private handleToolsList(request: MCPRequest): MCPResponse {
     return {
       jsonrpc: '2.0',
       id: request.id,
       result: {
-        tools: this.tools
+        tools: this.getAvailableTools().map(tool => ({
+          ...tool,
+          annotations: {
+            readOnlyHint: this.toolPolicy.isReadOnly(tool.name),
+            destructiveHint: this.toolPolicy.isDestructive(tool.name)
+          }
+        }))
       }
     };
   }
 
+  /** Tools that can work with the current debug sessions. */
+  private getAvailableTools(): MCPTool[] {
+    const sessions = this.debugEvents.listSessions();
+
+    return this.tools.filter(tool => {
+      const requirement = TOOL_REQUIREMENTS[tool.name];
+      if (requirement?.session && sessions.length === 0) {
+        return false;
+      }
+      if (requirement?.capability) {
+        return sessions.some(({ session }) => this.debugEvents.getCapabilities(session.id)[requirement.capability!]);
+      }
+      return true;
+    });
+  }
+
+  private getToolListKey(): string {
+    return this.getAvailableTools().map(tool => tool.name).join(',');
+  }
+
+  private checkToolListChanged(): void {
+    const key = this.getToolListKey();
+    if (key === this.listedTools) {
+      return;
+    }
+
+    this.listedTools = key;
+    this.notificationEmitter.fire({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed'
+    });
+  }
+
   private async handleToolsCall(request: MCPRequest): Promise<MCPResponse> {
-    const { name, arguments: args } = request.params || {};
+    const { name, arguments: rawArgs } = request.params || {};
     
     if (!name) {
       return this.createErrorResponse(request.id, MCPErrorCode.InvalidParams, 'Tool name is required');
     }
 
+    // Tools hidden from tools/list still run, since the list may be stale on the client
     const tool = this.tools.find(t => t.name === name);
     if (!tool) {
       return this.createErrorResponse(request.id, MCPErrorCode.InvalidParams, `Tool '${name}' not found`);
     }
 
+    // Reject bad arguments before they reach the approval prompt or the debug adapter
+    const validation = validateArguments(tool.inputSchema, rawArgs);
+    if (validation.errors.length > 0) {
+      const details = validation.errors.map(error => `${error.field} ${error.message}`).join('; ');
+      return this.createErrorResponse(
+        request.id,
+        MCPErrorCode.InvalidParams,
+        `Invalid arguments for tool '${name}': ${details}`,
+        { errors: validation.errors }
+      );
+    }
+    const args = validation.value;
+
+    const decision = await this.toolPolicy.check(name, args);
+    if (!decision.allowed) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'ToolCallDenied', tool: name, reason: decision.reason }, null, 2)
+            }
+          ],
+          isError: true
+        }
+      };
+    }
+
     try {
       let result: any;
       
       switch (name) {
         case 'set_breakpoint':
           const bp = await this.debuggerTools.setBreakpoint(args as BreakpointParams);
-          const sourceBp = bp as vscode.SourceBreakpoint;
           result = {
-            path: args.path, // Return the path as provided
-            line: sourceBp.location.range.start.line + 1,
-            enabled: sourceBp.enabled,
-            condition: sourceBp.condition
+            ...this.debuggerTools.describeBreakpoint(bp),
+            path: args.path // Return the path as provided
           };
           break;
           
+        case 'set_breakpoint_enabled':
+          const matched = await this.debuggerTools.setBreakpointEnabled(args as BreakpointEnablementParams);
+          result = { success: matched > 0, matched };
+          break;
+          
+        case 'get_logpoint_output':
+          result = await this.debuggerTools.getLogpointOutput(args as LogpointOutputParams);
+          break;
+
+        case 'get_output':
+          result = await this.debuggerTools.getOutput(args as OutputParams);
+          break;
+          
         case 'remove_breakpoint':
-          await this.debuggerTools.removeBreakpoint(args as BreakpointParams);
+          await this.debuggerTools.removeBreakpoint(args as RemoveBreakpointParams);
+          result = { success: true };
+          break;
+          
+        case 'set_function_breakpoint':
+          const functionBp = await this.debuggerTools.setFunctionBreakpoint(args as FunctionBreakpointParams);
+          result = {
+            type: 'function',
+            functionName: functionBp.functionName,
+            enabled: functionBp.enabled,
+            condition: functionBp.condition
+          };
+          break;
+          
+        case 'remove_function_breakpoint':
+          await this.debuggerTools.removeFunctionBreakpoint(args as RemoveFunctionBreakpointParams);
+          result = { success: true };
+          break;
+          
+        case 'set_exception_breakpoints':
+          result = await this.debuggerTools.setExceptionBreakpoints(args as ExceptionBreakpointsParams);
+          break;
+          
+        case 'set_data_breakpoint':
+          result = await this.debuggerTools.setDataBreakpoint(args as DataBreakpointParams);
+          break;
+          
+        case 'remove_data_breakpoint':
+          await this.debuggerTools.removeDataBreakpoint(args as RemoveDataBreakpointParams);
           result = { success: true };
           break;
           
@@ -201,27 +492,77 @@ export class MCPServer {
           result = await this.debuggerTools.evaluateExpression(args as EvaluateParams);
           break;
           
+        case 'get_source':
+          result = await this.debuggerTools.getSource(args as SourceParams);
+          break;
+          
+        case 'get_scopes':
+          result = await this.debuggerTools.getScopes(args as ScopesParams);
+          break;
+          
+        case 'get_variables':
+          result = await this.debuggerTools.getVariables(args as VariablesParams);
+          break;
+          
+        case 'set_variable':
+          result = await this.debuggerTools.setVariable(args as SetVariableParams);
+          break;
+          
+        case 'add_watch':
+          result = await this.debuggerTools.addWatch((args as AddWatchParams).expression);
+          break;
+          
+        case 'remove_watch':
+          result = { success: await this.debuggerTools.removeWatch(args as RemoveWatchParams) };
+          break;
+          
+        case 'list_watches':
+          result = this.debuggerTools.listWatches();
+          break;
+          
         case 'list_debug_configurations':
           result = await this.debuggerTools.listDebugConfigurations();
           break;
           
         case 'start_debugging':
-          await this.debuggerTools.startDebugging(args?.configName);
-          result = { success: true };
+          result = await this.debuggerTools.startDebugging(args as StartDebuggingParams) ?? { success: true };
+          break;
+          
+        case 'list_sessions':
+          result = this.debuggerTools.listSessions();
           break;
           
         case 'stop_debugging':
-          await this.debuggerTools.stopDebugging();
+          await this.debuggerTools.stopDebugging(args as SessionParams);
           result = { success: true };
           break;
           
         case 'get_debug_status':
-          result = await this.debuggerTools.getDebugStatus();
+          result = await this.debuggerTools.getDebugStatus(args as SessionParams);
+          break;
+          
+        case 'get_exception_info':
+          result = await this.debuggerTools.getExceptionInfo(args as ExceptionInfoParams);
+          break;
+
+        case 'get_threads':
+          result = await this.debuggerTools.getThreads(args as ThreadsParams);
+          break;
+          
+        case 'get_stack_trace':
+          result = await this.debuggerTools.getStackTrace(args as StackTraceParams);
           break;
           
         case 'step_debugger':
-          await this.debuggerTools.stepDebugger(args as StepParams);
-          result = { success: true };
+          result = await this.debuggerTools.stepDebugger(args as StepParams) ?? { success: true };
+          break;
+          
+        case 'get_step_in_targets':
+          result = await this.debuggerTools.getStepInTargets(args as StepInTargetsParams);
+          break;
+
+        case 'wait_for_stop':
+          result = await this.debuggerTools.waitForStop(args as WaitForStopParams);
           break;
           
         default:
@@ -249,6 +590,161 @@ export class MCPServer {
     }
   }
 
+  /** Drops the resource subscriptions of a client session that has ended. */
+  forgetClient(clientId: string): void {
+    this.resourceSubscriptions.forEach(clients => clients.delete(clientId));
+  }
+
+  private handleResourcesList(request: MCPRequest): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        resources: this.resources.list()
+      }
+    };
+  }
+
+  private async handleResourcesRead(request: MCPRequest): Promise<MCPResponse> {
+    const uri = request.params?.uri;
+    if (typeof uri !== 'string' || !this.resources.has(uri)) {
+      return this.createErrorResponse(request.id, MCPErrorCode.ResourceNotFound, 'Resource not found', { uri });
+    }
+
+    try {
+      const content = await this.resources.read(uri);
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(content, null, 2)
+            }
+          ]
+        }
+      };
+    } catch (error) {
+      return this.createErrorResponse(
+        request.id,
+        MCPErrorCode.InternalError,
+        error instanceof Error ? error.message : 'Failed to read resource'
+      );
+    }
+  }
+
+  private handleResourcesSubscribe(request: MCPRequest, clientId: string | undefined, subscribe: boolean): MCPResponse {
+    const uri = request.params?.uri;
+    if (typeof uri !== 'string' || !this.resources.has(uri)) {
+      return this.createErrorResponse(request.id, MCPErrorCode.ResourceNotFound, 'Resource not found', { uri });
+    }
+    if (!clientId) {
+      return this.createErrorResponse(request.id, MCPErrorCode.InvalidRequest, 'Subscriptions need a session with an event stream');
+    }
+
+    if (subscribe) {
+      const clients = this.resourceSubscriptions.get(uri) ?? new Set<string>();
+      clients.add(clientId);
+      this.resourceSubscriptions.set(uri, clients);
+    } else {
+      this.resourceSubscriptions.get(uri)?.delete(clientId);
+    }
+
+    return { jsonrpc: '2.0', id: request.id, result: {} };
+  }
+
+  private notifyResourceUpdated(uri: string): void {
+    for (const clientId of this.resourceSubscriptions.get(uri) ?? []) {
+      this.clientNotificationEmitter.fire({
+        clientId,
+        notification: {
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri }
+        }
+      });
+    }
+  }
+
+  private handlePromptsList(request: MCPRequest): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        prompts: this.prompts.list()
+      }
+    };
+  }
+
+  private async handlePromptsGet(request: MCPRequest): Promise<MCPResponse> {
+    const { name, arguments: args = {} } = request.params || {};
+    const prompt = typeof name === 'string' ? this.prompts.get(name) : undefined;
+    if (!prompt) {
+      return this.createErrorResponse(request.id, MCPErrorCode.InvalidParams, `Prompt '${name}' not found`);
+    }
+
+    const missing = (prompt.arguments || []).filter(argument => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      return this.createErrorResponse(
+        request.id,
+        MCPErrorCode.InvalidParams,
+        `Missing required arguments: ${missing.map(argument => argument.name).join(', ')}`
+      );
+    }
+
+    const text = await this.prompts.render(name, args);
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        description: prompt.description,
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text }
+          }
+        ]
+      }
+    };
+  }
+
+  private handleDebugEvent(event: DebugEvent): void {
+    const sessionId = event.session.id;
+    // getTopFrame and evaluateWatches report failures in their results, so the chain never rejects
+    const queued = (this.eventQueues.get(sessionId) ?? Promise.resolve()).then(() => this.sendDebugEvent(event));
+
+    this.eventQueues.set(sessionId, queued);
+    queued.then(() => {
+      if (this.eventQueues.get(sessionId) === queued) {
+        this.eventQueues.delete(sessionId);
+      }
+    });
+  }
+
+  private async sendDebugEvent(event: DebugEvent): Promise<void> {
+    // The tracker keeps the event as the session's last stop, so enrich a copy
+    const notification: DebugEvent = { ...event };
+
+    // Enriching costs adapter requests, so skip it when no client would receive the result
+    if (event.event === 'stopped' && event.threadId !== undefined && this.hasOpenStreams()) {
+      const session = this.debugEvents.getSession(event.session.id);
+      if (session) {
+        notification.topFrame = await this.debuggerTools.getTopFrame(session, event.threadId);
+        if (notification.topFrame && this.debuggerTools.listWatches().length > 0) {
+          notification.watches = await this.debuggerTools.evaluateWatches(session, notification.topFrame.id);
+        }
+      }
+    }
+
+    this.notificationEmitter.fire({
+      jsonrpc: '2.0',
+      method: `notifications/debug/${event.event}`,
+      params: notification
+    });
+  }
+
   private createErrorResponse(id: string | number, code: number, message: string, data?: any): MCPResponse {
     return {
       jsonrpc: '2.0',
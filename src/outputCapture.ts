@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { DebugEventTracker } from './debugEventTracker';
+import { DebugEvent, OutputEntry, OutputParams, OutputResult } from './types';
+
+const MAX_ENTRIES_PER_SESSION = 5000;
+// Output of ended sessions is kept so crashes can still be inspected
+const MAX_SESSIONS = 10;
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 2000;
+
+interface SessionOutput {
+  sessionName: string;
+  entries: OutputEntry[];
+  // Cursor of the newest entry evicted from the ring buffer, 0 while nothing was evicted
+  evictedCursor: number;
+}
+
+export class OutputCapture {
+  private buffers: Map<string, SessionOutput> = new Map();
+  private nextCursor = 1;
+
+  constructor(context: vscode.ExtensionContext, debugEvents: DebugEventTracker) {
+    context.subscriptions.push(
+      debugEvents.onDidStartSession(session => this.reset(session.id, session.name)),
+      debugEvents.onDidReceiveEvent(event => this.capture(event))
+    );
+  }
+
+  /** Returns the session whose output was captured most recently started, if any. */
+  getLatestSessionId(): string | undefined {
+    return [...this.buffers.keys()].pop();
+  }
+
+  query(sessionId: string, params: OutputParams): OutputResult {
+    const buffer = this.buffers.get(sessionId);
+    if (!buffer) {
+      throw new Error(`No output captured for debug session '${sessionId}'`);
+    }
+
+    let pattern: RegExp | undefined;
+    if (params.search) {
+      try {
+        pattern = new RegExp(params.search);
+      } catch (error) {
+        throw new Error(`Invalid search pattern: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const since = params.since ?? 0;
+    const limit = Math.min(Math.max(Math.floor(params.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+    const categories = params.categories && params.categories.length > 0 ? params.categories : undefined;
+
+    const matches = buffer.entries
+      .filter(entry => entry.cursor > since)
+      .filter(entry => !categories || categories.includes(entry.category))
+      .filter(entry => !pattern || pattern.test(entry.output));
+    const entries = params.tail ? matches.slice(-limit) : matches.slice(0, limit);
+
+    return {
+      sessionId,
+      sessionName: buffer.sessionName,
+      entries,
+      nextCursor: entries.length > 0 ? entries[entries.length - 1].cursor : Math.max(since, buffer.evictedCursor),
+      // Entries after 'since' were evicted before they could be read
+      truncated: since < buffer.evictedCursor
+    };
+  }
+
+  private reset(sessionId: string, sessionName: string): void {
+    // Re-insert so the map stays ordered by session start
+    this.buffers.delete(sessionId);
+    this.buffers.set(sessionId, { sessionName, entries: [], evictedCursor: 0 });
+
+    while (this.buffers.size > MAX_SESSIONS) {
+      this.buffers.delete(this.buffers.keys().next().value!);
+    }
+  }
+
+  private capture(event: DebugEvent): void {
+    if (event.event !== 'output' || !event.output) {
+      return;
+    }
+
+    const buffer = this.buffers.get(event.session.id);
+    if (!buffer) {
+      return;
+    }
+
+    buffer.entries.push({
+      cursor: this.nextCursor++,
+      timestamp: event.timestamp,
+      category: event.category || 'console',
+      output: event.output
+    });
+
+    if (buffer.entries.length > MAX_ENTRIES_PER_SESSION) {
+      buffer.evictedCursor = buffer.entries.shift()!.cursor;
+    }
+  }
+}
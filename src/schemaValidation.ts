@@ -0,0 +1,144 @@
+import { JsonSchema } from './types';
+
+export interface ValidationError {
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  value: any;
+  errors: ValidationError[];
+}
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Checks tool arguments against their input schema. Values that convert without
+ * loss, like "42" for a number or "true" for a boolean, are coerced; the result
+ * holds the coerced arguments.
+ */
+export function validateArguments(schema: JsonSchema, args: any): ValidationResult {
+  const errors: ValidationError[] = [];
+  const value = validate(schema, args ?? {}, '', errors);
+  return { value, errors: errors.map(error => error.field ? error : { ...error, field: 'arguments' }) };
+}
+
+function validate(schema: JsonSchema, value: any, field: string, errors: ValidationError[]): any {
+  if (schema.anyOf) {
+    // Accept the first alternative that matches without errors
+    for (const alternative of schema.anyOf) {
+      const alternativeErrors: ValidationError[] = [];
+      const coerced = validate(alternative, value, field, alternativeErrors);
+      if (alternativeErrors.length === 0) {
+        return coerced;
+      }
+    }
+    errors.push({ field, message: 'does not match any of the allowed types' });
+    return value;
+  }
+
+  if (Array.isArray(schema.type)) {
+    if (!schema.type.some(type => matchesType(type, value))) {
+      errors.push({ field, message: `must be of type ${schema.type.join(' or ')}` });
+    }
+    return value;
+  }
+
+  const coerced = schema.type ? coerce(schema.type, value) : value;
+  if (schema.type && !matchesType(schema.type, coerced)) {
+    errors.push({ field, message: `must be ${article(schema.type)} ${schema.type}` });
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(coerced)) {
+    errors.push({ field, message: `must be one of: ${schema.enum.join(', ')}` });
+    return coerced;
+  }
+
+  if (schema.minimum !== undefined && coerced < schema.minimum) {
+    errors.push({ field, message: `must be at least ${schema.minimum}` });
+    return coerced;
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    return coerced.map((item: any, index: number) => validate(schema.items!, item, `${field}[${index}]`, errors));
+  }
+
+  if (schema.type === 'object') {
+    return validateObject(schema, coerced, field, errors);
+  }
+
+  return coerced;
+}
+
+function validateObject(schema: JsonSchema, value: any, field: string, errors: ValidationError[]): any {
+  const properties = schema.properties || {};
+  const result: any = {};
+
+  for (const name of schema.required || []) {
+    if (value[name] === undefined || value[name] === null) {
+      errors.push({ field: join(field, name), message: 'is required' });
+    }
+  }
+
+  for (const [name, item] of Object.entries(value)) {
+    // Clients often send null for arguments they leave out; a missing required one was reported above
+    if (item === undefined || item === null) {
+      continue;
+    }
+
+    const propertySchema = properties[name];
+    if (propertySchema) {
+      result[name] = validate(propertySchema, item, join(field, name), errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ field: join(field, name), message: 'is not a known argument' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      result[name] = validate(schema.additionalProperties, item, join(field, name), errors);
+    } else {
+      result[name] = item;
+    }
+  }
+
+  return result;
+}
+
+function coerce(type: string, value: any): any {
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return typeof value === 'string' && NUMERIC.test(value.trim()) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+    default:
+      return value;
+  }
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function join(field: string, name: string): string {
+  return field ? `${field}.${name}` : name;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? 'an' : 'a';
+}
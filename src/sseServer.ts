@@ -1,174 +1,439 @@
 import express from 'express';
 import cors from 'cors';
 import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
 import * as vscode from 'vscode';
 import { MCPServer } from './mcpServer';
-import { MCPRequest, MCPResponse } from './types';
+import { DebugEventTracker } from './debugEventTracker';
+import { registerServer, unregisterServer } from './discovery';
+import { getAuthToken, isAllowedOrigin, isValidBearerToken } from './auth';
+import { MCPRequest, MCPResponse, MCPNotification, MCPErrorCode } from './types';
+
+const SESSION_HEADER = 'Mcp-Session-Id';
+export const DEFAULT_PORT = 6010;
+export const DEFAULT_HOST = '127.0.0.1';
+const PORT_ATTEMPTS = 10;
+const MAX_PORT = 65535;
+const WILDCARD_HOSTS = ['0.0.0.0', '::', ''];
+const PROTECTED_PATHS = ['/sse', '/messages', '/mcp'];
+
+interface ClientSession {
+  id: string;
+  transport: 'sse' | 'streamable-http';
+  // Open event stream for server-to-client messages, if the client has one
+  stream?: express.Response;
+}
+
+class ParseError extends Error {}
 
 export class SSEServer {
   private app: express.Application;
   private server: http.Server | null = null;
+  private host: string | undefined;
+  private port: number | undefined;
   private mcpServer: MCPServer;
-  private clients: Set<express.Response> = new Set();
+  private secrets: vscode.SecretStorage;
+  private token: string | undefined;
+  private sessions: Map<string, ClientSession> = new Map();
   private outputChannel: vscode.OutputChannel;
 
-  constructor(context: vscode.ExtensionContext) {
+  constructor(context: vscode.ExtensionContext, debugEvents: DebugEventTracker) {
     this.app = express();
-    this.mcpServer = new MCPServer(context);
     this.outputChannel = vscode.window.createOutputChannel('VSCode Debugger MCP');
-    
+    this.mcpServer = new MCPServer(context, debugEvents, this.outputChannel, () => this.hasOpenStreams());
+    this.secrets = context.secrets;
+
     this.setupMiddleware();
     this.setupRoutes();
+
+    // Push debug adapter events (stops, exits, output, ...) to connected clients
+    context.subscriptions.push(
+      this.mcpServer.onNotification(notification => this.broadcast(notification)),
+      this.mcpServer.onClientNotification(({ clientId, notification }) => {
+        const session = this.sessions.get(clientId);
+        if (session) {
+          this.send(session, notification);
+        }
+      })
+    );
   }
 
   private setupMiddleware(): void {
-    this.app.use(cors());
+    // Browsers only get CORS headers for allowlisted origins; everyone else is rejected below
+    this.app.use(cors({
+      origin: (origin, callback) => callback(null, isAllowedOrigin(origin)),
+      allowedHeaders: ['Authorization', 'Content-Type', SESSION_HEADER],
+      exposedHeaders: [SESSION_HEADER]
+    }));
+    this.app.use(PROTECTED_PATHS, (req, res, next) => this.authorize(req, res, next));
     this.app.use(express.json());
     this.app.use(express.text());
   }
 
+  private authorize(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    const origin = req.header('Origin');
+    if (!isAllowedOrigin(origin)) {
+      this.outputChannel.appendLine(`Rejected ${req.method} ${req.path} from disallowed origin ${origin}`);
+      this.sendError(res, 403, MCPErrorCode.Forbidden, `Origin '${origin}' is not allowed`);
+      return;
+    }
+
+    if (!this.token || !isValidBearerToken(req.header('Authorization'), this.token)) {
+      this.outputChannel.appendLine(`Rejected ${req.method} ${req.path} from ${req.socket.remoteAddress}: missing or invalid token`);
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, MCPErrorCode.Unauthorized, 'Missing or invalid bearer token');
+      return;
+    }
+
+    next();
+  }
+
   private setupRoutes(): void {
-    // SSE endpoint
+    // Legacy HTTP+SSE transport (protocol 2024-11-05): open the event stream
     this.app.get('/sse', (req, res) => {
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*'
-      });
+      const session: ClientSession = { id: randomUUID(), transport: 'sse' };
+      this.openStream(req, res, session);
 
-      // Send initial connection event
-      res.write('event: connected\ndata: {"type": "connected"}\n\n');
+      // Tell the client where to POST its messages
+      res.write(`event: endpoint\ndata: /messages?sessionId=${encodeURIComponent(session.id)}\n\n`);
+    });
 
-      // Add client to set
-      this.clients.add(res);
-      this.outputChannel.appendLine(`Client connected. Total clients: ${this.clients.size}`);
+    // Legacy HTTP+SSE transport: responses are delivered on the session's event stream
+    this.app.post('/messages', async (req, res) => {
+      const session = this.sessions.get(String(req.query.sessionId || ''));
+      if (!session || !session.stream) {
+        this.sendError(res, 404, MCPErrorCode.InvalidRequest, 'Unknown or closed session');
+        return;
+      }
 
-      // Handle client disconnect
-      req.on('close', () => {
-        this.clients.delete(res);
-        this.outputChannel.appendLine(`Client disconnected. Total clients: ${this.clients.size}`);
+      await this.handlePost(req, res, async messages => {
+        // Acknowledge at once; tool calls such as wait_for_stop or an approval prompt can take minutes
+        res.status(202).end();
+        const responses = await this.processMessages(messages, session);
+        responses.forEach(response => this.send(session, response));
       });
     });
 
-    // MCP request endpoint
+    // Request/response endpoint kept for clients that POST to /sse directly
     this.app.post('/sse', async (req, res) => {
-      try {
-        let request: MCPRequest;
-        
-        // Handle both JSON and text content types
-        if (typeof req.body === 'string') {
-          try {
-            request = JSON.parse(req.body);
-          } catch (e) {
-            res.status(400).json({
-              jsonrpc: '2.0',
-              id: null,
-              error: {
-                code: -32700,
-                message: 'Parse error'
-              }
-            });
+      await this.handlePost(req, res, async (messages, isBatch) => {
+        const responses = await this.processMessages(messages);
+        this.reply(res, responses, isBatch);
+      });
+    });
+
+    // Streamable HTTP transport (protocol 2025-03-26)
+    this.app.post('/mcp', async (req, res) => {
+      await this.handlePost(req, res, async (messages, isBatch) => {
+        let session: ClientSession | undefined;
+
+        if (messages.some(message => message?.method === 'initialize')) {
+          session = { id: randomUUID(), transport: 'streamable-http' };
+          this.sessions.set(session.id, session);
+          res.setHeader(SESSION_HEADER, session.id);
+          this.outputChannel.appendLine(`Session ${session.id} created. Total sessions: ${this.sessions.size}`);
+        } else {
+          session = this.requireSession(req, res);
+          if (!session) {
             return;
           }
-        } else {
-          request = req.body;
         }
 
-        this.outputChannel.appendLine(`Received request: ${JSON.stringify(request, null, 2)}`);
-
-        // Process request with MCP server
-        const response = await this.mcpServer.handleRequest(request);
-        
-        this.outputChannel.appendLine(`Sending response: ${JSON.stringify(response, null, 2)}`);
-
-        // Send response to all connected SSE clients
-        this.broadcast(response);
-
-        // Also send response back to POST request
-        res.json(response);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.outputChannel.appendLine(`Error handling request: ${errorMessage}`);
-        
-        res.status(500).json({
-          jsonrpc: '2.0',
-          id: null,
-          error: {
-            code: -32603,
-            message: 'Internal error',
-            data: errorMessage
-          }
-        });
+        const responses = await this.processMessages(messages, session);
+        this.reply(res, responses, isBatch);
+      });
+    });
+
+    // Streamable HTTP transport: optional stream for server-initiated notifications
+    this.app.get('/mcp', (req, res) => {
+      const session = this.requireSession(req, res);
+      if (!session) {
+        return;
       }
+
+      if (session.stream) {
+        this.sendError(res, 409, MCPErrorCode.InvalidRequest, 'Session already has an open event stream');
+        return;
+      }
+
+      this.openStream(req, res, session);
+    });
+
+    // Streamable HTTP transport: explicit session termination
+    this.app.delete('/mcp', (req, res) => {
+      const session = this.requireSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      this.closeSession(session);
+      res.status(204).end();
     });
 
     // Health check endpoint
     this.app.get('/health', (_req, res) => {
       res.json({
         status: 'ok',
-        clients: this.clients.size,
+        sessions: this.sessions.size,
         timestamp: new Date().toISOString()
       });
     });
+
+    // Body parser failures (malformed JSON) surface here
+    this.app.use((error: any, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+      if (error?.type === 'entity.parse.failed') {
+        this.sendError(res, 400, MCPErrorCode.ParseError, 'Parse error');
+        return;
+      }
+      next(error);
+    });
   }
 
-  private broadcast(data: MCPResponse): void {
-    const message = `data: ${JSON.stringify(data)}\n\n`;
-    
-    this.clients.forEach(client => {
-      try {
-        client.write(message);
-      } catch (error) {
-        this.outputChannel.appendLine(`Error broadcasting to client: ${error}`);
-        this.clients.delete(client);
+  private async handlePost(
+    req: express.Request,
+    res: express.Response,
+    handler: (messages: any[], isBatch: boolean) => Promise<void>
+  ): Promise<void> {
+    try {
+      const body = this.parseBody(req.body);
+      const isBatch = Array.isArray(body);
+      const messages = isBatch ? body : [body];
+
+      if (messages.length === 0) {
+        this.sendError(res, 400, MCPErrorCode.InvalidRequest, 'Empty batch');
+        return;
+      }
+
+      this.outputChannel.appendLine(`Received request: ${JSON.stringify(body, null, 2)}`);
+      await handler(messages, isBatch);
+    } catch (error) {
+      if (error instanceof ParseError) {
+        this.sendError(res, 400, MCPErrorCode.ParseError, 'Parse error');
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.outputChannel.appendLine(`Error handling request: ${errorMessage}`);
+
+      if (!res.headersSent) {
+        this.sendError(res, 500, MCPErrorCode.InternalError, 'Internal error', errorMessage);
+      }
+    }
+  }
+
+  private parseBody(body: unknown): any {
+    // Handle both JSON and text content types
+    if (typeof body !== 'string') {
+      return body;
+    }
+
+    try {
+      return JSON.parse(body);
+    } catch {
+      throw new ParseError();
+    }
+  }
+
+  private async processMessages(messages: any[], session?: ClientSession): Promise<MCPResponse[]> {
+    const responses: MCPResponse[] = [];
+
+    for (const message of messages) {
+      // Notifications and client responses expect no reply
+      const isNotification = message?.id === undefined || message.id === null;
+      const isClientResponse = message && !message.method && ('result' in message || 'error' in message);
+      if (!message || typeof message !== 'object' || isNotification || isClientResponse) {
+        continue;
+      }
+
+      const response = await this.mcpServer.handleRequest(message as MCPRequest, session?.id);
+      this.outputChannel.appendLine(`Sending response: ${JSON.stringify(response, null, 2)}`);
+      responses.push(response);
+    }
+
+    return responses;
+  }
+
+  private reply(res: express.Response, responses: MCPResponse[], isBatch: boolean): void {
+    if (responses.length === 0) {
+      res.status(202).end();
+    } else {
+      res.json(isBatch ? responses : responses[0]);
+    }
+  }
+
+  private requireSession(req: express.Request, res: express.Response): ClientSession | undefined {
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId) {
+      this.sendError(res, 400, MCPErrorCode.InvalidRequest, `Missing ${SESSION_HEADER} header`);
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendError(res, 404, MCPErrorCode.InvalidRequest, 'Session not found');
+      return undefined;
+    }
+
+    return session;
+  }
+
+  private openStream(req: express.Request, res: express.Response, session: ClientSession): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    session.stream = res;
+    this.sessions.set(session.id, session);
+    this.outputChannel.appendLine(`Client connected (${session.transport}). Total sessions: ${this.sessions.size}`);
+
+    // Handle client disconnect
+    req.on('close', () => {
+      if (session.transport === 'sse') {
+        // Legacy sessions live exactly as long as their stream
+        this.sessions.delete(session.id);
+        this.mcpServer.forgetClient(session.id);
+      } else if (session.stream === res) {
+        session.stream = undefined;
+      }
+      this.outputChannel.appendLine(`Client disconnected. Total sessions: ${this.sessions.size}`);
+    });
+  }
+
+  private closeSession(session: ClientSession): void {
+    try {
+      session.stream?.end();
+    } catch {
+      // Ignore errors during cleanup
+    }
+    this.sessions.delete(session.id);
+    this.mcpServer.forgetClient(session.id);
+    this.outputChannel.appendLine(`Session ${session.id} closed. Total sessions: ${this.sessions.size}`);
+  }
+
+  private send(session: ClientSession, data: MCPResponse | MCPNotification): void {
+    if (!session.stream) {
+      return;
+    }
+
+    try {
+      session.stream.write(`event: message\ndata: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      this.outputChannel.appendLine(`Error sending to session ${session.id}: ${error}`);
+      this.closeSession(session);
+    }
+  }
+
+  private hasOpenStreams(): boolean {
+    return this.isRunning() && [...this.sessions.values()].some(session => session.stream);
+  }
+
+  private broadcast(data: MCPNotification): void {
+    this.sessions.forEach(session => this.send(session, data));
+  }
+
+  private sendError(res: express.Response, status: number, code: number, message: string, data?: any): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code,
+        message,
+        data
       }
     });
   }
 
-  async start(port: number = 6010): Promise<void> {
+  async start(port: number = DEFAULT_PORT, host: string = DEFAULT_HOST): Promise<void> {
     if (this.server) {
       this.outputChannel.appendLine('SSE server is already running');
       return;
     }
 
-    return new Promise((resolve, reject) => {
-      try {
-        this.server = this.app.listen(port, () => {
-          this.outputChannel.appendLine(`SSE server started on http://localhost:${port}/sse`);
-          this.outputChannel.show();
-          resolve();
-        });
+    this.token = await getAuthToken(this.secrets);
 
-        this.server.on('error', (error) => {
+    // Another window may already own the port: try the next few, then any free one
+    // Port 0 already means any free port
+    const candidates = Array.from({ length: port > 0 ? PORT_ATTEMPTS : 0 }, (_, i) => port + i)
+      .filter(candidate => candidate <= MAX_PORT)
+      .concat(0);
+    for (const candidate of candidates) {
+      try {
+        this.server = await this.listen(candidate, host);
+        break;
+      } catch (error: any) {
+        if (error?.code !== 'EADDRINUSE') {
           this.outputChannel.appendLine(`Failed to start SSE server: ${error}`);
-          reject(error);
-        });
-      } catch (error) {
-        reject(error);
+          throw error;
+        }
+        this.outputChannel.appendLine(`Port ${candidate} is in use, trying another`);
       }
+    }
+
+    if (!this.server) {
+      throw new Error(`No free port found starting at ${port}`);
+    }
+
+    const actualPort = (this.server.address() as AddressInfo).port;
+    // Clients cannot connect to a wildcard address, so advertise loopback instead
+    this.host = WILDCARD_HOSTS.includes(host) ? '127.0.0.1' : host;
+    this.port = actualPort;
+
+    this.outputChannel.appendLine(`MCP server started on ${this.getUrl()}/mcp (legacy SSE: ${this.getUrl()}/sse)`);
+    this.outputChannel.show();
+
+    // Let the stdio bridge and other clients find this window's server
+    try {
+      registerServer({
+        port: actualPort,
+        host: this.host,
+        pid: process.pid,
+        workspaceFolders: (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath),
+        token: this.token,
+        startedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      this.outputChannel.appendLine(`Failed to write discovery file: ${error}`);
+    }
+  }
+
+  private listen(port: number, host: string): Promise<http.Server> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, host);
+      server.once('listening', () => {
+        server.off('error', reject);
+        resolve(server);
+      });
+      server.once('error', reject);
     });
   }
 
+  /** Base URL of the running server, e.g. http://127.0.0.1:6010 */
+  getUrl(): string | undefined {
+    if (!this.server || this.port === undefined) {
+      return undefined;
+    }
+    const host = this.host && this.host.includes(':') ? `[${this.host}]` : this.host;
+    return `http://${host}:${this.port}`;
+  }
+
   async stop(): Promise<void> {
     if (!this.server) {
       return;
     }
 
     return new Promise((resolve) => {
-      // Close all SSE connections
-      this.clients.forEach(client => {
-        try {
-          client.end();
-        } catch (error) {
-          // Ignore errors during cleanup
-        }
-      });
-      this.clients.clear();
+      // Close all client sessions and their event streams
+      this.sessions.forEach(session => this.closeSession(session));
+      this.sessions.clear();
+      unregisterServer();
 
       // Stop the server
       this.server!.close(() => {
         this.server = null;
+        this.port = undefined;
         this.outputChannel.appendLine('SSE server stopped');
         resolve();
       });
@@ -178,4 +443,4 @@ export class SSEServer {
   isRunning(): boolean {
     return this.server !== null;
   }
-}
\ No newline at end of file
+}
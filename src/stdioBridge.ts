@@ -0,0 +1,292 @@
+#!/usr/bin/env node
+import * as http from 'http';
+import * as readline from 'readline';
+import { findServer, getDiscoveryDirectory } from './discovery';
+import { MCPErrorCode } from './types';
+
+// Speaks MCP over stdin/stdout and forwards every message to the extension's
+// Streamable HTTP endpoint. Runs as a plain Node process, outside VS Code.
+
+const SESSION_HEADER = 'mcp-session-id';
+
+interface HttpResult {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+class StdioBridge {
+  private workspace: string;
+  private sessionId: string | undefined;
+  private initializeMessage: any;
+  private initializing: Promise<void> = Promise.resolve();
+  private eventStream: http.ClientRequest | undefined;
+
+  constructor(workspace: string) {
+    this.workspace = workspace;
+  }
+
+  start(): void {
+    const input = readline.createInterface({ input: process.stdin });
+    input.on('line', line => {
+      if (line.trim()) {
+        this.handleLine(line).catch(error => this.log(`Unexpected error: ${error}`));
+      }
+    });
+    input.on('close', () => {
+      this.shutdown().finally(() => process.exit(0));
+    });
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    let body: any;
+    try {
+      body = JSON.parse(line);
+    } catch {
+      this.write({ jsonrpc: '2.0', id: null, error: { code: MCPErrorCode.ParseError, message: 'Parse error' } });
+      return;
+    }
+
+    const messages: any[] = Array.isArray(body) ? body : [body];
+    if (messages.some(message => message?.method === 'initialize')) {
+      // Everything else waits until the session exists
+      this.initializing = this.forwardInitialize(body);
+      await this.initializing;
+      return;
+    }
+
+    await this.initializing;
+    await this.forward(body, messages);
+  }
+
+  private async forwardInitialize(body: any): Promise<void> {
+    this.initializeMessage = body;
+    this.sessionId = undefined;
+    await this.forward(body, Array.isArray(body) ? body : [body]);
+  }
+
+  private async forward(body: any, messages: any[]): Promise<void> {
+    try {
+      let result = await this.post(body);
+
+      // The extension restarted and forgot our session: re-initialize once and retry
+      if (result.status === 404 && this.sessionId && this.initializeMessage && body !== this.initializeMessage) {
+        this.log('Session expired, re-initializing');
+        this.sessionId = undefined;
+        await this.post(this.initializeMessage);
+        await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+        result = await this.post(body);
+      }
+
+      this.handleResult(result, messages);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`Failed to reach the VS Code debugger MCP server: ${message}`);
+      this.replyWithError(
+        messages,
+        MCPErrorCode.InternalError,
+        'VS Code debugger MCP server is not reachable. Is VS Code running with the extension enabled?',
+        message
+      );
+    }
+  }
+
+  private handleResult(result: HttpResult, messages: any[]): void {
+    let parsed: any;
+    try {
+      parsed = result.body ? JSON.parse(result.body) : undefined;
+    } catch {
+      this.log(`Server answered ${result.status} with a body that is not JSON`);
+      this.replyWithError(messages, MCPErrorCode.InternalError, `Invalid response from the VS Code debugger MCP server (HTTP ${result.status})`);
+      return;
+    }
+
+    // Transport errors (bad session, rejected token, ...) carry id null, so answer each request by its own id
+    if (result.status < 200 || result.status >= 300) {
+      this.log(`Server answered ${result.status}: ${parsed?.error?.message ?? 'no details'}`);
+      this.replyWithError(
+        messages,
+        parsed?.error?.code ?? MCPErrorCode.InternalError,
+        parsed?.error?.message ?? `VS Code debugger MCP server answered HTTP ${result.status}`,
+        parsed?.error?.data
+      );
+      return;
+    }
+
+    if (parsed !== undefined) {
+      this.write(parsed);
+    }
+  }
+
+  private replyWithError(messages: any[], code: number, message: string, data?: any): void {
+    for (const request of messages) {
+      if (request?.id !== undefined && request.id !== null) {
+        this.write({ jsonrpc: '2.0', id: request.id, error: { code, message, data } });
+      }
+    }
+  }
+
+  private async post(body: any): Promise<HttpResult> {
+    const result = await this.request('POST', JSON.stringify(body));
+
+    const sessionId = result.headers[SESSION_HEADER];
+    if (typeof sessionId === 'string' && sessionId !== this.sessionId) {
+      this.sessionId = sessionId;
+      this.closeEventStream();
+    }
+
+    if (this.sessionId && !this.eventStream) {
+      this.openEventStream();
+    }
+
+    return result;
+  }
+
+  private request(method: string, body?: string): Promise<HttpResult> {
+    const server = this.getServer();
+
+    return new Promise((resolve, reject) => {
+      const req = http.request({
+        host: server.host,
+        port: server.port,
+        path: '/mcp',
+        method,
+        headers: this.getHeaders(server.token, body)
+      }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: data }));
+      });
+
+      req.on('error', reject);
+      if (body) {
+        req.write(body);
+      }
+      req.end();
+    });
+  }
+
+  private openEventStream(): void {
+    const server = this.getServer();
+    const req = http.request({
+      host: server.host,
+      port: server.port,
+      path: '/mcp',
+      method: 'GET',
+      headers: { ...this.getHeaders(server.token), Accept: 'text/event-stream' }
+    }, res => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        return;
+      }
+
+      let buffer = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => {
+        buffer += chunk;
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          this.handleEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+        }
+      });
+      res.on('end', () => {
+        if (this.eventStream === req) {
+          this.eventStream = undefined;
+        }
+      });
+    });
+
+    req.on('error', error => {
+      // Streams we closed ourselves are no longer referenced here
+      if (this.eventStream === req) {
+        this.eventStream = undefined;
+        this.log(`Event stream closed: ${error.message}`);
+      }
+    });
+    req.end();
+    this.eventStream = req;
+  }
+
+  private handleEvent(event: string): void {
+    const data = event
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) {
+      return;
+    }
+
+    try {
+      this.write(JSON.parse(data));
+    } catch {
+      this.log(`Ignoring malformed event: ${data}`);
+    }
+  }
+
+  private closeEventStream(): void {
+    const stream = this.eventStream;
+    this.eventStream = undefined;
+    stream?.destroy();
+  }
+
+  private async shutdown(): Promise<void> {
+    this.closeEventStream();
+    if (!this.sessionId) {
+      return;
+    }
+
+    try {
+      await this.request('DELETE');
+    } catch {
+      // The server may already be gone
+    }
+  }
+
+  private getServer(): { host: string; port: number; token: string } {
+    // Re-read on every request so a restarted or moved server is picked up
+    const server = findServer(this.workspace);
+    if (!server) {
+      throw new Error(`No running server found in ${getDiscoveryDirectory()}`);
+    }
+    return { host: server.host, port: server.port, token: server.token };
+  }
+
+  private getHeaders(token: string, body?: string): http.OutgoingHttpHeaders {
+    const headers: http.OutgoingHttpHeaders = {
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${token}`
+    };
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = Buffer.byteLength(body);
+    }
+    if (this.sessionId) {
+      headers[SESSION_HEADER] = this.sessionId;
+    }
+    return headers;
+  }
+
+  private write(message: any): void {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private log(message: string): void {
+    // stdout is reserved for protocol messages
+    process.stderr.write(`[vscode-debugger-mcp] ${message}\n`);
+  }
+}
+
+// The VS Code window is chosen by workspace: --workspace <dir>, then the env var, then the cwd
+function getWorkspaceArgument(): string {
+  const index = process.argv.indexOf('--workspace');
+  if (index !== -1 && process.argv[index + 1]) {
+    return process.argv[index + 1];
+  }
+  return process.env.VSCODE_DEBUGGER_MCP_WORKSPACE || process.cwd();
+}
+
+new StdioBridge(getWorkspaceArgument()).start();
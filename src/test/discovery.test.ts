@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findServer, getDiscoveryDirectory, readServers, registerServer, ServerInfo, unregisterServer } from '../discovery';
+
+// Keep the discovery directory out of the real home directory
+jest.mock('os', () => ({ ...jest.requireActual('os'), homedir: jest.fn() }));
+
+// Far above the default pid_max, so no process has it
+const DEAD_PID = 99999999;
+
+function server(pid: number, workspaceFolders: string[], startedAt: string): ServerInfo {
+  return { port: 6010 + pid % 100, host: '127.0.0.1', pid, workspaceFolders, token: 'token', startedAt };
+}
+
+describe('discovery', () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'discovery-'));
+    jest.mocked(os.homedir).mockReturnValue(home);
+  });
+
+  afterEach(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('keeps the entries of windows that register at the same time', () => {
+    registerServer(server(process.pid, ['/work/app'], '2024-01-01T00:00:00.000Z'));
+    registerServer(server(process.ppid, ['/work/lib'], '2024-01-01T00:00:00.000Z'));
+
+    expect(readServers().map(entry => entry.pid).sort()).toEqual([process.pid, process.ppid].sort());
+  });
+
+  it('replaces the earlier entry of the same window', () => {
+    registerServer(server(process.pid, ['/work/app'], '2024-01-01T00:00:00.000Z'));
+    registerServer({ ...server(process.pid, ['/work/app'], '2024-01-02T00:00:00.000Z'), port: 7000 });
+
+    expect(readServers()).toEqual([expect.objectContaining({ pid: process.pid, port: 7000 })]);
+  });
+
+  it('ignores and cleans up the entries of windows that are gone', () => {
+    fs.mkdirSync(getDiscoveryDirectory(), { recursive: true });
+    const stale = path.join(getDiscoveryDirectory(), `${DEAD_PID}.json`);
+    fs.writeFileSync(stale, JSON.stringify(server(DEAD_PID, ['/work/app'], '2024-01-03T00:00:00.000Z')));
+    expect(readServers()).toEqual([]);
+
+    registerServer(server(process.pid, ['/work/app'], '2024-01-01T00:00:00.000Z'));
+    expect(fs.existsSync(stale)).toBe(false);
+  });
+
+  it('removes the entry on unregister', () => {
+    registerServer(server(process.pid, ['/work/app'], '2024-01-01T00:00:00.000Z'));
+    unregisterServer();
+
+    expect(readServers()).toEqual([]);
+    expect(findServer('/work/app')).toBeUndefined();
+  });
+
+  it('skips unreadable entries', () => {
+    registerServer(server(process.pid, ['/work/app'], '2024-01-01T00:00:00.000Z'));
+    fs.writeFileSync(path.join(getDiscoveryDirectory(), `${process.ppid}.json`), '{ not json');
+
+    expect(readServers().map(entry => entry.pid)).toEqual([process.pid]);
+  });
+
+  describe('findServer', () => {
+    beforeEach(() => {
+      registerServer(server(process.pid, ['/work/app'], '2024-01-01T00:00:00.000Z'));
+      registerServer(server(process.ppid, ['/work/app/packages/lib'], '2024-01-02T00:00:00.000Z'));
+    });
+
+    it('picks the window whose workspace contains the directory', () => {
+      expect(findServer('/work/app/src')?.pid).toBe(process.pid);
+    });
+
+    it('prefers the most specific workspace folder', () => {
+      expect(findServer('/work/app/packages/lib/src')?.pid).toBe(process.ppid);
+    });
+
+    it('does not match folders that only share a name prefix', () => {
+      expect(findServer('/work/application')?.pid).toBe(process.ppid);
+    });
+
+    it('falls back to the most recently started window', () => {
+      expect(findServer('/elsewhere')?.pid).toBe(process.ppid);
+      expect(findServer()?.pid).toBe(process.ppid);
+    });
+  });
+});
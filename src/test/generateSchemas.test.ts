@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Plain JavaScript without type declarations
+const { generateSchemas, renderSchemas } = require('../../scripts/generate-schemas');
+
+describe('generate-schemas', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'generate-schemas-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function generate(source: string): any {
+    const file = path.join(directory, 'types.ts');
+    fs.writeFileSync(file, source);
+    return generateSchemas(file);
+  }
+
+  it('only generates schemas for exported *Params types', () => {
+    const schemas = generate(`
+      export interface StepParams { threadId?: number; }
+      export interface StepResult { ok: boolean; }
+      interface HiddenParams { value: string; }
+      export type NoParams = Record<string, never>;
+    `);
+    expect(Object.keys(schemas)).toEqual(['StepParams', 'NoParams']);
+  });
+
+  it('maps fields to types, descriptions and required lists', () => {
+    const schemas = generate(`
+      export interface BreakpointParams {
+        /** File path */
+        path: string;
+        /** Whether it is enabled */
+        enabled?: boolean;
+        ids?: number[];
+      }
+    `);
+    expect(schemas.BreakpointParams).toEqual({
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path' },
+        enabled: { type: 'boolean', description: 'Whether it is enabled' },
+        ids: { type: 'array', items: { type: 'number' } }
+      },
+      required: ['path'],
+      additionalProperties: false
+    });
+  });
+
+  it('turns string literal unions and enums into enum schemas', () => {
+    const schemas = generate(`
+      export enum Mode { Fast = 'fast', Slow = 'slow' }
+      export interface ModeParams {
+        mode: Mode;
+        filter?: 'indexed' | 'named';
+      }
+    `);
+    expect(schemas.ModeParams.properties).toEqual({
+      mode: { type: 'string', enum: ['fast', 'slow'] },
+      filter: { type: 'string', enum: ['indexed', 'named'] }
+    });
+  });
+
+  it('applies @integer and @minimum tags', () => {
+    const schemas = generate(`
+      export interface LineParams {
+        /** Line number (1-based) @integer @minimum 1 */
+        line: number;
+        /** Offset @minimum 0 */
+        offset?: number;
+      }
+    `);
+    expect(schemas.LineParams.properties).toEqual({
+      line: { type: 'integer', minimum: 1, description: 'Line number (1-based)' },
+      offset: { type: 'number', minimum: 0, description: 'Offset' }
+    });
+  });
+
+  it('rejects @integer on a field that is not a number', () => {
+    expect(() => generate(`
+      export interface BadParams {
+        /** Name @integer */
+        name: string;
+      }
+    `)).toThrow('@integer on a field that is not a number at BadParams.name');
+  });
+
+  it('keeps objects with an index signature open', () => {
+    const schemas = generate(`
+      export interface ConfigParams {
+        settings: { [key: string]: any };
+        env?: Record<string, string>;
+      }
+    `);
+    expect(schemas.ConfigParams.properties.settings).toEqual({ type: 'object', properties: {} });
+    expect(schemas.ConfigParams.properties.env).toEqual({
+      type: 'object',
+      properties: {},
+      additionalProperties: { type: 'string' }
+    });
+  });
+
+  it('matches the committed schema file', () => {
+    const root = path.join(__dirname, '..', '..');
+    const expected = renderSchemas(generateSchemas(path.join(root, 'src', 'types.ts')));
+    expect(fs.readFileSync(path.join(root, 'src', 'toolSchemas.generated.ts'), 'utf8')).toBe(expected);
+  });
+});
@@ -0,0 +1,88 @@
+import { validateArguments } from '../schemaValidation';
+import { TOOL_SCHEMAS } from '../toolSchemas.generated';
+import { JsonSchema } from '../types';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    path: { type: 'string' },
+    line: { type: 'integer', minimum: 1 },
+    enabled: { type: 'boolean' },
+    mode: { type: 'string', enum: ['fast', 'slow'] },
+    tags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['path', 'line'],
+  additionalProperties: false
+};
+
+describe('validateArguments', () => {
+  it('accepts valid arguments unchanged', () => {
+    const result = validateArguments(schema, { path: 'a.ts', line: 3, enabled: false, tags: ['x'] });
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({ path: 'a.ts', line: 3, enabled: false, tags: ['x'] });
+  });
+
+  it('coerces values that convert without loss', () => {
+    const result = validateArguments(schema, { path: 42, line: '7', enabled: 'true' });
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({ path: '42', line: 7, enabled: true });
+  });
+
+  it('treats null for an optional argument as omitted', () => {
+    const result = validateArguments(schema, { path: 'a.ts', line: 1, mode: null });
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({ path: 'a.ts', line: 1 });
+  });
+
+  it('reports a required argument sent as null once', () => {
+    const result = validateArguments(schema, { path: 'a.ts', line: null });
+    expect(result.errors).toEqual([{ field: 'line', message: 'is required' }]);
+  });
+
+  it('reports every missing required argument', () => {
+    const result = validateArguments(schema, undefined);
+    expect(result.errors).toEqual([
+      { field: 'path', message: 'is required' },
+      { field: 'line', message: 'is required' }
+    ]);
+  });
+
+  it('rejects line numbers that are not positive integers', () => {
+    expect(validateArguments(schema, { path: 'a.ts', line: -3 }).errors)
+      .toEqual([{ field: 'line', message: 'must be at least 1' }]);
+    expect(validateArguments(schema, { path: 'a.ts', line: 10.5 }).errors)
+      .toEqual([{ field: 'line', message: 'must be an integer' }]);
+    expect(validateArguments(schema, { path: 'a.ts', line: 'ten' }).errors)
+      .toEqual([{ field: 'line', message: 'must be an integer' }]);
+  });
+
+  it('rejects unknown arguments and values outside an enum', () => {
+    const result = validateArguments(schema, { path: 'a.ts', line: 1, mode: 'medium', lines: 2 });
+    expect(result.errors).toEqual([
+      { field: 'mode', message: 'must be one of: fast, slow' },
+      { field: 'lines', message: 'is not a known argument' }
+    ]);
+  });
+
+  it('names the position of invalid array items', () => {
+    const result = validateArguments(schema, { path: 'a.ts', line: 1, tags: ['x', {}] });
+    expect(result.errors).toEqual([{ field: 'tags[1]', message: 'must be a string' }]);
+  });
+
+  it('reports a non-object argument list against the arguments as a whole', () => {
+    const result = validateArguments(schema, 'a.ts');
+    expect(result.errors).toEqual([{ field: 'arguments', message: 'must be an object' }]);
+  });
+
+  it('accepts the first matching alternative of anyOf', () => {
+    const union: JsonSchema = { anyOf: [{ type: 'number' }, { type: 'object', properties: {} }] };
+    expect(validateArguments(union, '5')).toEqual({ value: 5, errors: [] });
+    expect(validateArguments(union, true).errors)
+      .toEqual([{ field: 'arguments', message: 'does not match any of the allowed types' }]);
+  });
+
+  it('checks tool arguments against the generated schemas', () => {
+    const result = validateArguments(TOOL_SCHEMAS.BreakpointParams, { path: 'src/index.ts', line: 0 });
+    expect(result.errors).toEqual([{ field: 'line', message: 'must be at least 1' }]);
+  });
+});
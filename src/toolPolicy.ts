@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+
+export type ApprovalMode = 'auto' | 'prompt' | 'deny';
+
+export type PolicyDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+// Tools that only observe debugger state. Anything not listed here is treated as mutating.
+const READ_ONLY_TOOLS: ReadonlySet<string> = new Set([
+  'get_scopes',
+  'get_variables',
+  'list_debug_configurations',
+  'get_debug_status',
+  'wait_for_stop',
+  'get_logpoint_output',
+  'get_output',
+  'list_sessions',
+  'get_threads',
+  'get_exception_info',
+  'get_step_in_targets',
+  'get_stack_trace',
+  'get_source',
+  'list_watches'
+]);
+
+// Mutating tools that can lose state: program state, debug sessions or breakpoints the developer set
+const DESTRUCTIVE_TOOLS: ReadonlySet<string> = new Set([
+  'remove_breakpoint',
+  'remove_function_breakpoint',
+  'remove_data_breakpoint',
+  'remove_watch',
+  'set_variable',
+  'stop_debugging',
+  'step_debugger'
+]);
+
+const ALLOW = 'Allow';
+const ALLOW_FOR_SESSION = 'Allow for This Session';
+const DENY = 'Deny';
+// A notification that slid into the notification center may never be answered
+const APPROVAL_TIMEOUT_MS = 60000;
+const TIMED_OUT = Symbol('timed out');
+
+export class ToolPolicy {
+  // Tools the developer allowed for the rest of this VS Code session
+  private sessionAllowed: Set<string> = new Set();
+
+  isReadOnly(toolName: string): boolean {
+    return READ_ONLY_TOOLS.has(toolName);
+  }
+
+  isDestructive(toolName: string): boolean {
+    return DESTRUCTIVE_TOOLS.has(toolName);
+  }
+
+  async check(toolName: string, args: any): Promise<PolicyDecision> {
+    if (this.isReadOnly(toolName)) {
+      return { allowed: true };
+    }
+
+    const config = vscode.workspace.getConfiguration('vscodeDebuggerMcp');
+    const mode = config.get<ApprovalMode>('approval', 'prompt');
+
+    switch (mode) {
+      case 'auto':
+        return { allowed: true };
+      case 'deny':
+        return { allowed: false, reason: 'Side-effecting tools are disabled by the vscodeDebuggerMcp.approval setting' };
+    }
+
+    if (this.sessionAllowed.has(toolName)) {
+      return { allowed: true };
+    }
+
+    const choice = await this.ask(toolName, args, config.get<string>('approvalStyle', 'modal') === 'modal');
+    switch (choice) {
+      case TIMED_OUT:
+        return { allowed: false, reason: 'approval timed out' };
+      case ALLOW_FOR_SESSION:
+        this.sessionAllowed.add(toolName);
+        return { allowed: true };
+      case ALLOW:
+        return { allowed: true };
+      default:
+        return { allowed: false, reason: 'The developer denied this tool call' };
+    }
+  }
+
+  private async ask(toolName: string, args: any, modal: boolean): Promise<string | typeof TIMED_OUT | undefined> {
+    const message = `An MCP client wants to run '${toolName}'`;
+    const detail = `Arguments:\n${JSON.stringify(args ?? {}, null, 2)}`;
+
+    if (modal) {
+      // Dismissing the modal counts as a denial
+      return vscode.window.showWarningMessage(message, { modal: true, detail }, ALLOW, ALLOW_FOR_SESSION);
+    }
+
+    // Notifications have no detail field, so the arguments go inline
+    const answer = vscode.window.showWarningMessage(
+      `${message} with ${JSON.stringify(args ?? {})}`,
+      ALLOW,
+      ALLOW_FOR_SESSION,
+      DENY
+    );
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+      timer = setTimeout(() => resolve(TIMED_OUT), APPROVAL_TIMEOUT_MS);
+    });
+    try {
+      return await Promise.race([answer, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,690 @@
+// Generated by scripts/generate-schemas.js from the *Params types in src/types.ts.
+// Do not edit; run `npm run generate-schemas` after changing those types.
+
+import { ToolInputSchema } from './types';
+
+export const TOOL_SCHEMAS = {
+  "BreakpointParams": {
+    "type": "object",
+    "properties": {
+      "path": {
+        "type": "string",
+        "description": "File path (absolute or relative to workspace)"
+      },
+      "line": {
+        "type": "integer",
+        "minimum": 1,
+        "description": "Line number (1-based)"
+      },
+      "column": {
+        "type": "integer",
+        "minimum": 1,
+        "description": "Optional column (1-based) for inline breakpoints"
+      },
+      "condition": {
+        "type": "string",
+        "description": "Optional breakpoint condition"
+      },
+      "hitCondition": {
+        "type": "string",
+        "description": "Optional hit count condition (e.g. \">= 5\", \"% 10\")"
+      },
+      "logMessage": {
+        "type": "string",
+        "description": "Turns the breakpoint into a logpoint that logs this message instead of stopping. Expressions in {} are interpolated, e.g. \"x = {x}\""
+      },
+      "enabled": {
+        "type": "boolean",
+        "description": "Whether the breakpoint is enabled (default true)"
+      }
+    },
+    "required": [
+      "path",
+      "line"
+    ],
+    "additionalProperties": false
+  },
+  "RemoveBreakpointParams": {
+    "type": "object",
+    "properties": {
+      "path": {
+        "type": "string",
+        "description": "File path (absolute or relative to workspace)"
+      },
+      "line": {
+        "type": "integer",
+        "minimum": 1,
+        "description": "Line number (1-based)"
+      }
+    },
+    "required": [
+      "path",
+      "line"
+    ],
+    "additionalProperties": false
+  },
+  "BreakpointEnablementParams": {
+    "type": "object",
+    "properties": {
+      "enabled": {
+        "type": "boolean",
+        "description": "true to enable, false to disable"
+      },
+      "path": {
+        "type": "string",
+        "description": "File path of a source breakpoint (absolute or relative to workspace)"
+      },
+      "line": {
+        "type": "integer",
+        "minimum": 1,
+        "description": "Line number (1-based) of a source breakpoint"
+      },
+      "functionName": {
+        "type": "string",
+        "description": "Function name of a function breakpoint"
+      }
+    },
+    "required": [
+      "enabled"
+    ],
+    "additionalProperties": false
+  },
+  "LogpointOutputParams": {
+    "type": "object",
+    "properties": {
+      "since": {
+        "type": "number",
+        "description": "Only return messages after this cursor (default 0)"
+      },
+      "limit": {
+        "type": "number",
+        "description": "Maximum number of messages (default 100, max 1000)"
+      }
+    },
+    "additionalProperties": false
+  },
+  "FunctionBreakpointParams": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string",
+        "description": "Function name, as understood by the debug adapter (e.g. \"MyClass.method\")"
+      },
+      "condition": {
+        "type": "string",
+        "description": "Optional breakpoint condition"
+      },
+      "hitCondition": {
+        "type": "string",
+        "description": "Optional hit count condition"
+      }
+    },
+    "required": [
+      "name"
+    ],
+    "additionalProperties": false
+  },
+  "RemoveFunctionBreakpointParams": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string",
+        "description": "Function name of the breakpoint to remove"
+      }
+    },
+    "required": [
+      "name"
+    ],
+    "additionalProperties": false
+  },
+  "ExceptionBreakpointsParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "filters": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        },
+        "description": "Exception filter IDs to enable (adapter specific, e.g. \"all\", \"uncaught\"). An empty list disables exception breakpoints"
+      },
+      "filterOptions": {
+        "type": "array",
+        "items": {
+          "type": "object",
+          "properties": {
+            "filterId": {
+              "type": "string"
+            },
+            "condition": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "filterId"
+          ],
+          "additionalProperties": false
+        },
+        "description": "Optional conditions per filter, for adapters that support them"
+      }
+    },
+    "required": [
+      "filters"
+    ],
+    "additionalProperties": false
+  },
+  "DataBreakpointParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "name": {
+        "type": "string",
+        "description": "Variable name, or an expression when variablesReference is omitted"
+      },
+      "variablesReference": {
+        "type": "number",
+        "description": "Container of the variable (from get_scopes or get_variables)"
+      },
+      "accessType": {
+        "type": "string",
+        "enum": [
+          "read",
+          "write",
+          "readWrite"
+        ],
+        "description": "Access that triggers the breakpoint (default write)"
+      },
+      "condition": {
+        "type": "string",
+        "description": "Optional breakpoint condition"
+      }
+    },
+    "required": [
+      "name"
+    ],
+    "additionalProperties": false
+  },
+  "RemoveDataBreakpointParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "dataId": {
+        "type": "string",
+        "description": "dataId returned by set_data_breakpoint"
+      }
+    },
+    "required": [
+      "dataId"
+    ],
+    "additionalProperties": false
+  },
+  "EvaluateParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "expression": {
+        "type": "string",
+        "description": "Expression to evaluate"
+      },
+      "frameId": {
+        "type": "number",
+        "description": "Optional stack frame ID"
+      }
+    },
+    "required": [
+      "expression"
+    ],
+    "additionalProperties": false
+  },
+  "SourceParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "frameId": {
+        "type": "number",
+        "description": "Stack frame ID (from get_stack_trace); uses the frame source and line"
+      },
+      "path": {
+        "type": "string",
+        "description": "File path (absolute or relative to workspace), when no frameId is given. Must be inside the workspace or the source of a current stack frame"
+      },
+      "sourceReference": {
+        "type": "number",
+        "description": "Adapter source reference, for sources without a file on disk"
+      },
+      "line": {
+        "type": "integer",
+        "minimum": 1,
+        "description": "Line (1-based) to center the window on, when no frameId is given"
+      },
+      "contextLines": {
+        "type": "number",
+        "description": "Lines to include before and after the line (default 10)"
+      }
+    },
+    "additionalProperties": false
+  },
+  "ScopesParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "frameId": {
+        "type": "number",
+        "description": "Stack frame ID (from get_debug_status)"
+      },
+      "includeVariables": {
+        "type": "boolean",
+        "description": "Also return the top-level variables of non-expensive scopes"
+      }
+    },
+    "required": [
+      "frameId"
+    ],
+    "additionalProperties": false
+  },
+  "VariablesParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "variablesReference": {
+        "type": "number",
+        "description": "Handle returned by get_scopes or a previous get_variables call"
+      },
+      "depth": {
+        "type": "number",
+        "description": "Levels of children to expand (default 1, max 5)"
+      },
+      "maxItems": {
+        "type": "number",
+        "description": "Maximum number of children returned per level (default 100, max 1000)"
+      },
+      "start": {
+        "type": "number",
+        "description": "Index of the first child to return, for paging large collections"
+      },
+      "filter": {
+        "type": "string",
+        "enum": [
+          "indexed",
+          "named"
+        ],
+        "description": "Only return indexed or named children"
+      }
+    },
+    "required": [
+      "variablesReference"
+    ],
+    "additionalProperties": false
+  },
+  "SetVariableParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "value": {
+        "type": "string",
+        "description": "New value as an expression in the debuggee language (e.g. 42, null or a quoted string)"
+      },
+      "variablesReference": {
+        "type": "number",
+        "description": "Container of the variable (from get_scopes or get_variables)"
+      },
+      "name": {
+        "type": "string",
+        "description": "Name of the variable inside variablesReference"
+      },
+      "expression": {
+        "type": "string",
+        "description": "Assignable expression (e.g. \"user.age\"), for adapters that support setExpression"
+      },
+      "frameId": {
+        "type": "number",
+        "description": "Stack frame to evaluate the expression in"
+      }
+    },
+    "required": [
+      "value"
+    ],
+    "additionalProperties": false
+  },
+  "AddWatchParams": {
+    "type": "object",
+    "properties": {
+      "expression": {
+        "type": "string",
+        "description": "Expression to watch"
+      }
+    },
+    "required": [
+      "expression"
+    ],
+    "additionalProperties": false
+  },
+  "RemoveWatchParams": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "number",
+        "description": "Watch ID (from add_watch or list_watches)"
+      },
+      "expression": {
+        "type": "string",
+        "description": "Watched expression"
+      }
+    },
+    "additionalProperties": false
+  },
+  "OutputParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session, or the most recent one"
+      },
+      "categories": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        },
+        "description": "Only return these output categories, e.g. [\"stdout\", \"stderr\", \"console\", \"important\"]"
+      },
+      "since": {
+        "type": "number",
+        "description": "Only return output after this cursor (default 0)"
+      },
+      "limit": {
+        "type": "number",
+        "description": "Maximum number of entries (default 200, max 2000)"
+      },
+      "search": {
+        "type": "string",
+        "description": "Only return entries matching this regular expression"
+      },
+      "tail": {
+        "type": "boolean",
+        "description": "Return the newest matching entries instead of the oldest"
+      }
+    },
+    "additionalProperties": false
+  },
+  "ThreadsParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      }
+    },
+    "additionalProperties": false
+  },
+  "StackTraceParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "threadId": {
+        "type": "number",
+        "description": "Thread ID (from get_threads); defaults to the stopped thread"
+      },
+      "startFrame": {
+        "type": "number",
+        "description": "Index of the first frame to return (default 0)"
+      },
+      "levels": {
+        "type": "number",
+        "description": "Maximum number of frames to return (default 20, max 200)"
+      }
+    },
+    "additionalProperties": false
+  },
+  "ExceptionInfoParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "threadId": {
+        "type": "number",
+        "description": "Thread that stopped on the exception (defaults to the thread that stopped)"
+      }
+    },
+    "additionalProperties": false
+  },
+  "SessionParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      }
+    },
+    "additionalProperties": false
+  },
+  "NoParams": {
+    "type": "object",
+    "properties": {},
+    "additionalProperties": false
+  },
+  "StepParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "type": {
+        "type": "string",
+        "enum": [
+          "stepOver",
+          "stepInto",
+          "stepOut",
+          "continue",
+          "pause",
+          "restart",
+          "restartFrame",
+          "goto",
+          "runToLine",
+          "stepBack",
+          "reverseContinue",
+          "terminateThread"
+        ],
+        "description": "Type of step operation"
+      },
+      "threadId": {
+        "type": "number",
+        "description": "Optional thread ID (required for terminateThread)"
+      },
+      "frameId": {
+        "type": "number",
+        "description": "Frame to restart with restartFrame (defaults to the top frame)"
+      },
+      "path": {
+        "type": "string",
+        "description": "File for goto and runToLine (absolute or relative to workspace)"
+      },
+      "line": {
+        "type": "integer",
+        "minimum": 1,
+        "description": "Line number (1-based) for goto and runToLine"
+      },
+      "column": {
+        "type": "integer",
+        "minimum": 1,
+        "description": "Optional column (1-based) for goto and runToLine"
+      },
+      "targetId": {
+        "type": "number",
+        "description": "Goto target when a line has several (defaults to the first), or the call to step into with stepInto (from get_step_in_targets)"
+      },
+      "granularity": {
+        "type": "string",
+        "enum": [
+          "statement",
+          "line",
+          "instruction"
+        ],
+        "description": "Optional stepping granularity for stepOver, stepInto, stepOut and stepBack"
+      },
+      "singleThread": {
+        "type": "boolean",
+        "description": "Resume only the given thread; other threads stay paused"
+      },
+      "waitForStop": {
+        "type": "boolean",
+        "description": "Block until execution stops again or the session terminates"
+      },
+      "timeout": {
+        "type": "number",
+        "description": "Maximum time to wait in milliseconds when waitForStop is set (default 30000)"
+      }
+    },
+    "required": [
+      "type"
+    ],
+    "additionalProperties": false
+  },
+  "StepInTargetsParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "frameId": {
+        "type": "number",
+        "description": "Frame ID (defaults to the top frame of the thread that stopped)"
+      }
+    },
+    "additionalProperties": false
+  },
+  "StartDebuggingParams": {
+    "type": "object",
+    "properties": {
+      "configName": {
+        "type": "string",
+        "description": "Optional configuration or compound name to use"
+      },
+      "configuration": {
+        "type": "object",
+        "properties": {
+          "type": {
+            "type": "string",
+            "description": "Debugger type, e.g. \"node\", \"python\", \"cppdbg\""
+          },
+          "request": {
+            "type": "string",
+            "enum": [
+              "launch",
+              "attach"
+            ],
+            "description": "Launch a program, or attach to one that is already running"
+          },
+          "name": {
+            "type": "string",
+            "description": "Session name (defaults to \"<type> <request>\")"
+          },
+          "program": {
+            "type": "string",
+            "description": "Program to launch"
+          },
+          "args": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            },
+            "description": "Program arguments"
+          },
+          "env": {
+            "type": "object",
+            "properties": {},
+            "additionalProperties": {
+              "type": "string"
+            },
+            "description": "Environment variables"
+          },
+          "cwd": {
+            "type": "string",
+            "description": "Working directory"
+          },
+          "processId": {
+            "type": [
+              "string",
+              "number"
+            ],
+            "description": "Process to attach to"
+          },
+          "port": {
+            "type": "number",
+            "description": "Debug port to attach to"
+          }
+        },
+        "required": [
+          "type",
+          "request"
+        ],
+        "description": "Inline debug configuration instead of configName, e.g. {\"type\": \"node\", \"request\": \"launch\", \"program\": \"scripts/repro.js\", \"args\": [], \"env\": {}, \"cwd\": \".\"} or {\"type\": \"node\", \"request\": \"attach\", \"port\": 9229}. Relative program and cwd paths are resolved against the workspace folder"
+      },
+      "folder": {
+        "type": "string",
+        "description": "Workspace folder name or path to run in, and to look up configName in when several folders define it (defaults to the first folder)"
+      },
+      "noDebug": {
+        "type": "boolean",
+        "description": "Run without debugging: breakpoints are ignored"
+      },
+      "waitForStop": {
+        "type": "boolean",
+        "description": "Block until the session first stops or terminates"
+      },
+      "timeout": {
+        "type": "number",
+        "description": "Maximum time to wait in milliseconds when waitForStop is set (default 30000)"
+      }
+    },
+    "additionalProperties": false
+  },
+  "WaitForStopParams": {
+    "type": "object",
+    "properties": {
+      "sessionId": {
+        "type": "string",
+        "description": "Optional debug session ID (from list_sessions); defaults to the active session"
+      },
+      "timeout": {
+        "type": "number",
+        "description": "Maximum time to wait in milliseconds (default 30000, max 300000)"
+      },
+      "frames": {
+        "type": "number",
+        "description": "Number of top stack frames to return (default 5)"
+      }
+    },
+    "additionalProperties": false
+  }
+} satisfies Record<string, ToolInputSchema>;
@@ -7,38 +7,367 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: string;
-  id: string | number;
+  id: string | number | null;
   result?: any;
   error?: MCPError;
 }
 
+export interface MCPNotification {
+  jsonrpc: string;
+  method: string;
+  params?: any;
+}
+
 export interface MCPError {
   code: number;
   message: string;
   data?: any;
 }
 
+export interface MCPToolAnnotations {
+  readOnlyHint?: boolean;
+  // Only meaningful for tools that are not read-only; clients assume true when it is missing
+  destructiveHint?: boolean;
+}
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: (string | number)[];
+  minimum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+export interface ToolInputSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
 export interface MCPTool {
   name: string;
   description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, any>;
-    required?: string[];
-  };
+  inputSchema: ToolInputSchema;
+  annotations?: MCPToolAnnotations;
 }
 
 export interface BreakpointParams {
+  /** File path (absolute or relative to workspace) */
+  path: string;
+  /** Line number (1-based) @integer @minimum 1 */
+  line: number;
+  /** Optional column (1-based) for inline breakpoints @integer @minimum 1 */
+  column?: number;
+  /** Optional breakpoint condition */
+  condition?: string;
+  /** Optional hit count condition (e.g. ">= 5", "% 10") */
+  hitCondition?: string;
+  /** Turns the breakpoint into a logpoint that logs this message instead of stopping. Expressions in {} are interpolated, e.g. "x = {x}" */
+  logMessage?: string;
+  /** Whether the breakpoint is enabled (default true) */
+  enabled?: boolean;
+}
+
+export interface RemoveBreakpointParams {
+  /** File path (absolute or relative to workspace) */
+  path: string;
+  /** Line number (1-based) @integer @minimum 1 */
+  line: number;
+}
+
+export interface BreakpointEnablementParams {
+  /** true to enable, false to disable */
+  enabled: boolean;
+  /** File path of a source breakpoint (absolute or relative to workspace) */
+  path?: string;
+  /** Line number (1-based) of a source breakpoint @integer @minimum 1 */
+  line?: number;
+  /** Function name of a function breakpoint */
+  functionName?: string;
+}
+
+export interface LogpointOutputParams {
+  /** Only return messages after this cursor (default 0) */
+  since?: number;
+  /** Maximum number of messages (default 100, max 1000) */
+  limit?: number;
+}
+
+export interface LogpointOutput {
+  cursor: number;
+  timestamp: string;
+  sessionId: string;
   path: string;
   line: number;
+  message: string;
+}
+
+export interface FunctionBreakpointParams {
+  /** Function name, as understood by the debug adapter (e.g. "MyClass.method") */
+  name: string;
+  /** Optional breakpoint condition */
+  condition?: string;
+  /** Optional hit count condition */
+  hitCondition?: string;
+}
+
+export interface RemoveFunctionBreakpointParams {
+  /** Function name of the breakpoint to remove */
+  name: string;
+}
+
+export interface ExceptionBreakpointsParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Exception filter IDs to enable (adapter specific, e.g. "all", "uncaught"). An empty list disables exception breakpoints */
+  filters: string[];
+  /** Optional conditions per filter, for adapters that support them */
+  filterOptions?: {
+    filterId: string;
+    condition?: string;
+  }[];
+}
+
+export interface DataBreakpointParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Variable name, or an expression when variablesReference is omitted */
+  name: string;
+  /** Container of the variable (from get_scopes or get_variables) */
+  variablesReference?: number;
+  /** Access that triggers the breakpoint (default write) */
+  accessType?: 'read' | 'write' | 'readWrite';
+  /** Optional breakpoint condition */
+  condition?: string;
+}
+
+export interface RemoveDataBreakpointParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** dataId returned by set_data_breakpoint */
+  dataId: string;
+}
+
+export interface AdapterBreakpoint {
+  id?: number;
+  verified: boolean;
+  requestedLine?: number;
+  requestedColumn?: number;
+  line?: number;
+  column?: number;
+  message?: string;
+}
+
+export type BreakpointType = 'source' | 'function' | 'exception' | 'data';
+
+export interface BreakpointInfo {
+  type: BreakpointType;
+  enabled: boolean;
+  path?: string;
+  line?: number;
+  column?: number;
+  functionName?: string;
+  filterId?: string;
+  label?: string;
+  dataId?: string;
+  accessType?: string;
   condition?: string;
+  hitCondition?: string;
+  logMessage?: string;
+  id?: number;
+  verified?: boolean;
+  actualLine?: number;
+  actualColumn?: number;
+  message?: string;
 }
 
 export interface EvaluateParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Expression to evaluate */
   expression: string;
+  /** Optional stack frame ID */
+  frameId?: number;
+}
+
+export interface SourceParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Stack frame ID (from get_stack_trace); uses the frame source and line */
+  frameId?: number;
+  /** File path (absolute or relative to workspace), when no frameId is given. Must be inside the workspace or the source of a current stack frame */
+  path?: string;
+  /** Adapter source reference, for sources without a file on disk */
+  sourceReference?: number;
+  /** Line (1-based) to center the window on, when no frameId is given @integer @minimum 1 */
+  line?: number;
+  /** Lines to include before and after the line (default 10) */
+  contextLines?: number;
+}
+
+export interface SourceLine {
+  line: number;
+  text: string;
+  current?: boolean;
+  breakpoint?: boolean;
+}
+
+export interface SourceContext {
+  path?: string;
+  name?: string;
+  sourceReference?: number;
+  mimeType?: string;
+  line?: number;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  lines: SourceLine[];
+}
+
+export interface ScopesParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Stack frame ID (from get_debug_status) */
+  frameId: number;
+  /** Also return the top-level variables of non-expensive scopes */
+  includeVariables?: boolean;
+}
+
+export interface VariablesParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Handle returned by get_scopes or a previous get_variables call */
+  variablesReference: number;
+  /** Levels of children to expand (default 1, max 5) */
+  depth?: number;
+  /** Maximum number of children returned per level (default 100, max 1000) */
+  maxItems?: number;
+  /** Index of the first child to return, for paging large collections */
+  start?: number;
+  /** Only return indexed or named children */
+  filter?: 'indexed' | 'named';
+}
+
+export interface VariableInfo {
+  name: string;
+  value: string;
+  type?: string;
+  evaluateName?: string;
+  variablesReference: number;
+  namedVariables?: number;
+  indexedVariables?: number;
+  children?: VariableInfo[];
+  truncated?: boolean;
+}
+
+export interface ScopeInfo {
+  name: string;
+  variablesReference: number;
+  expensive: boolean;
+  presentationHint?: string;
+  namedVariables?: number;
+  indexedVariables?: number;
+  variables?: VariableInfo[];
+  truncated?: boolean;
+}
+
+export interface SetVariableParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** New value as an expression in the debuggee language (e.g. 42, null or a quoted string) */
+  value: string;
+  /** Container of the variable (from get_scopes or get_variables) */
+  variablesReference?: number;
+  /** Name of the variable inside variablesReference */
+  name?: string;
+  /** Assignable expression (e.g. "user.age"), for adapters that support setExpression */
+  expression?: string;
+  /** Stack frame to evaluate the expression in */
   frameId?: number;
 }
 
+export interface SetVariableResult {
+  value: string;
+  type?: string;
+  variablesReference?: number;
+}
+
+export interface AddWatchParams {
+  /** Expression to watch */
+  expression: string;
+}
+
+export interface RemoveWatchParams {
+  /** Watch ID (from add_watch or list_watches) */
+  id?: number;
+  /** Watched expression */
+  expression?: string;
+}
+
+export interface WatchExpression {
+  id: number;
+  expression: string;
+}
+
+export interface WatchResult extends WatchExpression {
+  value?: string;
+  type?: string;
+  variablesReference?: number;
+  error?: string;
+}
+
+export interface OutputParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session, or the most recent one */
+  sessionId?: string;
+  /** Only return these output categories, e.g. ["stdout", "stderr", "console", "important"] */
+  categories?: string[];
+  /** Only return output after this cursor (default 0) */
+  since?: number;
+  /** Maximum number of entries (default 200, max 2000) */
+  limit?: number;
+  /** Only return entries matching this regular expression */
+  search?: string;
+  /** Return the newest matching entries instead of the oldest */
+  tail?: boolean;
+}
+
+export interface OutputEntry {
+  cursor: number;
+  timestamp: string;
+  category: string;
+  output: string;
+}
+
+export interface OutputResult {
+  sessionId: string;
+  sessionName: string;
+  entries: OutputEntry[];
+  nextCursor: number;
+  truncated: boolean;
+}
+
 export interface DebugConfiguration {
   name: string;
   type: string;
@@ -46,6 +375,123 @@ export interface DebugConfiguration {
   [key: string]: any;
 }
 
+export type LaunchConfigSource = 'launch.json' | 'settings' | 'code-workspace';
+
+export interface LaunchConfigurationInfo {
+  name: string;
+  // Workspace folder name; undefined for user settings and the .code-workspace file
+  folder?: string;
+  source: LaunchConfigSource;
+  // With ${...} variables resolved where possible
+  configuration: DebugConfiguration;
+}
+
+export interface LaunchCompoundInfo {
+  name: string;
+  folder?: string;
+  source: LaunchConfigSource;
+  configurations: (string | { name: string; folder: string })[];
+  stopAll?: boolean;
+  preLaunchTask?: string;
+}
+
+export interface LaunchConfigurations {
+  configurations: LaunchConfigurationInfo[];
+  compounds: LaunchCompoundInfo[];
+  errors: { file: string; message: string }[];
+}
+
+export interface InlineDebugConfiguration {
+  /** Debugger type, e.g. "node", "python", "cppdbg" */
+  type: string;
+  /** Launch a program, or attach to one that is already running */
+  request: 'launch' | 'attach';
+  /** Session name (defaults to "<type> <request>") */
+  name?: string;
+  /** Program to launch */
+  program?: string;
+  /** Program arguments */
+  args?: string[];
+  /** Environment variables */
+  env?: Record<string, string>;
+  /** Working directory */
+  cwd?: string;
+  /** Process to attach to */
+  processId?: number | string;
+  /** Debug port to attach to */
+  port?: number;
+  [key: string]: any;
+}
+
+export interface StackFrameInfo {
+  id: number;
+  name: string;
+  source?: {
+    path?: string;
+    name: string;
+    sourceReference?: number;
+    presentationHint?: string;
+    origin?: string;
+  };
+  line: number;
+  column: number;
+  presentationHint?: string;
+  moduleId?: number | string;
+  moduleName?: string;
+}
+
+export interface ThreadInfo {
+  id: number;
+  name: string;
+  stopped?: boolean;
+}
+
+export interface ThreadsParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+}
+
+export interface StackTraceParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Thread ID (from get_threads); defaults to the stopped thread */
+  threadId?: number;
+  /** Index of the first frame to return (default 0) */
+  startFrame?: number;
+  /** Maximum number of frames to return (default 20, max 200) */
+  levels?: number;
+}
+
+export interface StackTraceResult {
+  threadId: number;
+  totalFrames: number;
+  stackFrames: StackFrameInfo[];
+}
+
+export interface ExceptionInfoParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Thread that stopped on the exception (defaults to the thread that stopped) */
+  threadId?: number;
+}
+
+export interface ExceptionDetails {
+  message?: string;
+  typeName?: string;
+  fullTypeName?: string;
+  evaluateName?: string;
+  stackTrace?: string;
+  innerException?: ExceptionDetails[];
+}
+
+export interface ExceptionInfo {
+  threadId: number;
+  exceptionId: string;
+  description?: string;
+  breakMode: 'never' | 'always' | 'unhandled' | 'userUnhandled';
+  details?: ExceptionDetails;
+}
+
 export interface DebugStatus {
   isActive: boolean;
   isPaused: boolean;
@@ -54,27 +500,64 @@ export interface DebugStatus {
     name: string;
     type: string;
   };
-  threads?: {
-    id: number;
-    name: string;
-  }[];
+  threads?: ThreadInfo[];
   activeThreadId?: number;
-  stackFrames?: {
-    id: number;
+  stopReason?: string;
+  exception?: ExceptionInfo;
+  // DAP capabilities the session's debug adapter reported
+  capabilities?: Record<string, any>;
+  stackFrames?: StackFrameInfo[];
+  watches?: WatchResult[];
+  breakpoints: BreakpointInfo[];
+}
+
+export type SessionState = 'running' | 'stopped' | 'terminated';
+
+export interface SessionParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+}
+
+// For tools that take no arguments
+export type NoParams = Record<string, never>;
+
+export interface SessionInfo {
+  id: string;
+  name: string;
+  type: string;
+  request: string;
+  parentId?: string;
+  state: SessionState;
+  isActive: boolean;
+}
+
+export type DebugEventType = 'stopped' | 'continued' | 'exited' | 'terminated' | 'output' | 'breakpoint';
+
+export interface DebugEvent {
+  event: DebugEventType;
+  session: {
+    id: string;
     name: string;
-    source?: {
-      path: string;
-      name: string;
-    };
-    line: number;
-    column: number;
-  }[];
-  breakpoints: {
-    path: string;
-    line: number;
-    enabled: boolean;
-    condition?: string;
-  }[];
+    type: string;
+  };
+  timestamp: string;
+  reason?: string;
+  description?: string;
+  threadId?: number;
+  allThreadsStopped?: boolean;
+  allThreadsContinued?: boolean;
+  hitBreakpointIds?: number[];
+  topFrame?: StackFrameInfo;
+  watches?: WatchResult[];
+  exitCode?: number;
+  category?: string;
+  output?: string;
+  source?: {
+    path?: string;
+    name?: string;
+  };
+  line?: number;
+  breakpoint?: any;
 }
 
 export enum StepType {
@@ -82,12 +565,98 @@ export enum StepType {
   StepInto = 'stepInto',
   StepOut = 'stepOut',
   Continue = 'continue',
-  Pause = 'pause'
+  Pause = 'pause',
+  Restart = 'restart',
+  RestartFrame = 'restartFrame',
+  Goto = 'goto',
+  RunToLine = 'runToLine',
+  StepBack = 'stepBack',
+  ReverseContinue = 'reverseContinue',
+  TerminateThread = 'terminateThread'
 }
 
 export interface StepParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Type of step operation */
   type: StepType;
+  /** Optional thread ID (required for terminateThread) */
+  threadId?: number;
+  /** Frame to restart with restartFrame (defaults to the top frame) */
+  frameId?: number;
+  /** File for goto and runToLine (absolute or relative to workspace) */
+  path?: string;
+  /** Line number (1-based) for goto and runToLine @integer @minimum 1 */
+  line?: number;
+  /** Optional column (1-based) for goto and runToLine @integer @minimum 1 */
+  column?: number;
+  /** Goto target when a line has several (defaults to the first), or the call to step into with stepInto (from get_step_in_targets) */
+  targetId?: number;
+  /** Optional stepping granularity for stepOver, stepInto, stepOut and stepBack */
+  granularity?: SteppingGranularity;
+  /** Resume only the given thread; other threads stay paused */
+  singleThread?: boolean;
+  /** Block until execution stops again or the session terminates */
+  waitForStop?: boolean;
+  /** Maximum time to wait in milliseconds when waitForStop is set (default 30000) */
+  timeout?: number;
+}
+
+export type SteppingGranularity = 'statement' | 'line' | 'instruction';
+
+export interface StepInTargetsParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Frame ID (defaults to the top frame of the thread that stopped) */
+  frameId?: number;
+}
+
+export interface StepInTarget {
+  id: number;
+  label: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface StartDebuggingParams {
+  /** Optional configuration or compound name to use */
+  configName?: string;
+  /** Inline debug configuration instead of configName, e.g. {"type": "node", "request": "launch", "program": "scripts/repro.js", "args": [], "env": {}, "cwd": "."} or {"type": "node", "request": "attach", "port": 9229}. Relative program and cwd paths are resolved against the workspace folder */
+  configuration?: InlineDebugConfiguration;
+  /** Workspace folder name or path to run in, and to look up configName in when several folders define it (defaults to the first folder) */
+  folder?: string;
+  /** Run without debugging: breakpoints are ignored */
+  noDebug?: boolean;
+  /** Block until the session first stops or terminates */
+  waitForStop?: boolean;
+  /** Maximum time to wait in milliseconds when waitForStop is set (default 30000) */
+  timeout?: number;
+}
+
+export interface WaitForStopParams {
+  /** Optional debug session ID (from list_sessions); defaults to the active session */
+  sessionId?: string;
+  /** Maximum time to wait in milliseconds (default 30000, max 300000) */
+  timeout?: number;
+  /** Number of top stack frames to return (default 5) */
+  frames?: number;
+}
+
+export interface StopResult {
+  status: 'stopped' | 'terminated' | 'timeout';
+  session?: {
+    id: string;
+    name: string;
+    type: string;
+  };
+  reason?: string;
+  description?: string;
   threadId?: number;
+  hitBreakpointIds?: number[];
+  stackFrames?: StackFrameInfo[];
+  sourceLine?: string;
 }
 
 export enum MCPErrorCode {
@@ -97,4 +666,7 @@ export enum MCPErrorCode {
   InvalidParams = -32602,
   InternalError = -32603,
   ServerError = -32000,
+  Unauthorized = -32001,
+  ResourceNotFound = -32002,
+  Forbidden = -32003,
 }
\ No newline at end of file